@@ -1,6 +1,8 @@
+const Ajv = require('ajv').default;
 const fs = require('fs');
 const { compileFromFile } = require('json-schema-to-typescript');
 const path = require('path');
+const standaloneCode = require('ajv/dist/standalone').default;
 
 compileFromFile('schema/schema.json', { cwd: 'schema' }).then((ts) =>
   fs.writeFileSync('src/schema.ts', ts)
@@ -9,10 +11,15 @@ compileFromFile('schema/schema.json', { cwd: 'schema' }).then((ts) =>
 const dname = path.resolve(path.join(__dirname, 'schema', 'messages'));
 
 const lines = [];
+const mapLines = [];
+const typeNames = [];
+const schemas = [JSON.parse(fs.readFileSync(path.join(__dirname, 'schema', 'schema.json')))];
+const refs = {};
 
 for (const fname of fs.readdirSync(dname)) {
   const schemaPath = path.join(dname, fname);
   const schema = JSON.parse(fs.readFileSync(schemaPath).toString());
+  schemas.push(schema);
 
   if (!schema.hasOwnProperty('properties') || !schema.properties.hasOwnProperty('messageType')) {
     continue;
@@ -21,13 +28,61 @@ for (const fname of fs.readdirSync(dname)) {
   const name = fname.split('.')[0].toUpperCase().replace(/-/g, '_');
   const value = schema.properties.messageType.const;
   lines.push(`  ${name} = ${value}`);
+  refs[value] = schema.$id;
+
+  // json-schema-to-typescript names the message interfaces after the titles.
+  const typeName = schema.title
+    .split(/[^A-Za-z0-9]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  mapLines.push(`  [MessageType.${name}]: ${typeName};`);
+  typeNames.push(typeName);
 }
 
 let content = '';
+content += 'import type {\n';
+content += typeNames.map((typeName) => `  ${typeName},\n`).join('');
+content += "} from './schema';\n";
+content += '\n';
 content += 'export enum MessageType {\n';
 content += lines.reduce((prev, cur) => `${prev},\n${cur}`);
 content += '\n}\n';
+content += '\n';
+content += '/**\n';
+content += ' * Maps each message type to the message shape generated from its schema.\n';
+content += ' */\n';
+content += 'export interface MessageTypeMap {\n';
+content += mapLines.join('\n');
+content += '\n}\n';
+
+// Descriptions which add-ons build themselves, e.g. from a file, are checked
+// against these definitions.
+const definitionsId = schemas.find((schema) => schema.$id.endsWith('/definitions.json')).$id;
+refs.device = `${definitionsId}#/definitions/device`;
+refs.deviceWithoutId = `${definitionsId}#/definitions/deviceWithoutId`;
 
 const outputFile = path.resolve(path.join(__dirname, 'src', 'message-type.ts'));
 
 fs.writeFileSync(outputFile, content);
+
+// Precompile the message validators, so that IpcSocket doesn't have to read
+// and compile the schemas at runtime.
+const ajv = new Ajv({ schemas, code: { source: true, lines: true } });
+const validatorCode = standaloneCode(ajv, refs)
+  .replace(/^"use strict";/, '')
+  .replace(/^exports(\["\d+"\]) = /gm, 'validators$1 = ')
+  .replace(/^exports(\[[^\]]+\]|\.\w+) = /gm, 'definitionValidators$1 = ');
+
+let validators = '';
+validators += '// @ts-nocheck\n';
+validators += '/* eslint-disable */\n';
+validators += '// This file was automatically generated by generate-types.js.\n';
+validators += "import { ValidateFunction } from 'ajv';\n";
+validators += '\n';
+validators += 'export const validators: Record<number, ValidateFunction> = {};\n';
+validators += 'export const definitionValidators: Record<string, ValidateFunction> = {};\n';
+validators += `${validatorCode}\n`;
+
+const validatorFile = path.resolve(path.join(__dirname, 'src', 'message-validators.ts'));
+
+fs.writeFileSync(validatorFile, validators);
@@ -0,0 +1,70 @@
+/**
+ * AbortController fallback.
+ *
+ * Node.js only has a global AbortController since version 15. On older
+ * versions a minimal implementation is used instead, which covers what this
+ * package needs: signal.aborted, 'abort' listeners and signal.onabort.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+type AbortListener = ((event: Event) => void) | { handleEvent(event: Event): void };
+
+class FallbackAbortSignal {
+  public aborted = false;
+
+  public onabort: ((event: Event) => void) | null = null;
+
+  private listeners: AbortListener[] = [];
+
+  addEventListener(type: string, listener: AbortListener | null): void {
+    if (type === 'abort' && listener && !this.listeners.includes(listener)) {
+      this.listeners.push(listener);
+    }
+  }
+
+  removeEventListener(type: string, listener: AbortListener | null): void {
+    if (type === 'abort') {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    }
+  }
+
+  abort(): void {
+    if (this.aborted) {
+      return;
+    }
+
+    this.aborted = true;
+    const event = <Event>(<unknown>{ type: 'abort', target: this, currentTarget: this });
+
+    this.onabort?.call(this, event);
+    for (const listener of this.listeners.slice()) {
+      if (typeof listener === 'function') {
+        listener.call(this, event);
+      } else {
+        listener.handleEvent(event);
+      }
+    }
+  }
+}
+
+class FallbackAbortController {
+  public readonly signal = new FallbackAbortSignal();
+
+  abort(): void {
+    this.signal.abort();
+  }
+}
+
+/**
+ * @returns a new AbortController, native if available.
+ */
+export function createAbortController(): AbortController {
+  if (typeof AbortController === 'function') {
+    return new AbortController();
+  }
+
+  return <AbortController>(<unknown>new FallbackAbortController());
+}
@@ -10,6 +10,11 @@ import { Device } from './device';
 import { ActionDescription, Any } from './schema';
 import { timestamp } from './utils';
 
+/**
+ * Minimum time between two progress notifications, in milliseconds.
+ */
+const PROGRESS_NOTIFY_INTERVAL_MS = 1000;
+
 /**
  * An Action represents an individual action on a device.
  */
@@ -28,6 +33,20 @@ export class Action {
 
   private input?: Any;
 
+  private error?: string;
+
+  private output?: Any;
+
+  private progress?: number;
+
+  private progressMessage?: string;
+
+  private progressInterval = PROGRESS_NOTIFY_INTERVAL_MS;
+
+  private lastProgressNotify = 0;
+
+  private progressTimer?: NodeJS.Timeout | null;
+
   /**
    * Initialize the object.
    *
@@ -55,6 +74,42 @@ export class Action {
     return this.input;
   }
 
+  getStatus(): string {
+    return this.status;
+  }
+
+  getError(): string | undefined {
+    return this.error;
+  }
+
+  getOutput(): Any | undefined {
+    return this.output;
+  }
+
+  getProgress(): number | undefined {
+    return this.progress;
+  }
+
+  getProgressMessage(): string | undefined {
+    return this.progressMessage;
+  }
+
+  /**
+   * Set the minimum time between two progress notifications.
+   *
+   * @param {number} interval Interval in milliseconds
+   */
+  setProgressInterval(interval: number): void {
+    this.progressInterval = interval;
+  }
+
+  /**
+   * @returns true if the action has completed, failed or been cancelled.
+   */
+  isFinished(): boolean {
+    return ['completed', 'error', 'cancelled'].includes(this.status);
+  }
+
   /**
    * Get the action description.
    *
@@ -76,6 +131,7 @@ export class Action {
       description.timeCompleted = this.timeCompleted;
     }
 
+    this.addStateToDescription(description);
     return description;
   }
 
@@ -85,7 +141,7 @@ export class Action {
    * @returns {Object} Description of the action as an object.
    */
   asDict(): ActionDescription {
-    return {
+    const description: ActionDescription = {
       id: this.id,
       name: this.name,
       input: this.input,
@@ -93,6 +149,27 @@ export class Action {
       timeRequested: this.timeRequested,
       timeCompleted: this.timeCompleted,
     };
+
+    this.addStateToDescription(description);
+    return description;
+  }
+
+  private addStateToDescription(description: ActionDescription): void {
+    if (typeof this.progress !== 'undefined') {
+      description.progress = this.progress;
+    }
+
+    if (typeof this.progressMessage !== 'undefined') {
+      description.progressMessage = this.progressMessage;
+    }
+
+    if (typeof this.output !== 'undefined') {
+      description.output = this.output;
+    }
+
+    if (this.error) {
+      description.error = this.error;
+    }
   }
 
   /**
@@ -103,12 +180,102 @@ export class Action {
     this.device.actionNotify(this);
   }
 
+  /**
+   * Report how far along the action is. Notifications are throttled, but the
+   * latest progress is always sent eventually.
+   *
+   * @param {number} percent Progress, from 0 to 100
+   * @param {String} message Optional description of the current step
+   */
+  setProgress(percent: number, message?: string): void {
+    if (this.isFinished()) {
+      return;
+    }
+
+    this.progress = Math.min(Math.max(percent, 0), 100);
+    this.progressMessage = message;
+
+    if (this.progressTimer) {
+      return;
+    }
+
+    const wait = this.lastProgressNotify + this.progressInterval - Date.now();
+    if (wait <= 0) {
+      this.notifyProgress();
+    } else {
+      this.progressTimer = setTimeout(() => this.notifyProgress(), wait);
+    }
+  }
+
+  private notifyProgress(): void {
+    this.clearProgressTimer();
+    this.lastProgressNotify = Date.now();
+    this.device.actionNotify(this);
+  }
+
+  private clearProgressTimer(): void {
+    if (this.progressTimer) {
+      clearTimeout(this.progressTimer);
+      this.progressTimer = null;
+    }
+  }
+
   /**
    * Finish performing the action.
+   *
+   * @param {unknown} output Optional result of the action. If the action
+   *                         declares an output schema, the action fails
+   *                         when the output does not match it.
    */
-  finish(): void {
+  finish(output?: Any): void {
+    if (this.isFinished()) {
+      return;
+    }
+
+    if (typeof output !== 'undefined') {
+      const error = this.device.validateActionOutput(this.name, output);
+      if (error) {
+        this.fail(error);
+        return;
+      }
+
+      this.output = output;
+    }
+
+    this.clearProgressTimer();
     this.status = 'completed';
     this.timeCompleted = timestamp();
     this.device.actionNotify(this);
   }
+
+  /**
+   * Mark the action as failed.
+   *
+   * @param {unknown} error The reason the action failed
+   */
+  fail(error: unknown): void {
+    if (this.isFinished()) {
+      return;
+    }
+
+    this.clearProgressTimer();
+    this.status = 'error';
+    this.error = error instanceof Error ? error.message : `${error}`;
+    this.timeCompleted = timestamp();
+    this.device.actionNotify(this);
+  }
+
+  /**
+   * Mark the action as cancelled.
+   */
+  cancel(): void {
+    if (this.isFinished()) {
+      return;
+    }
+
+    this.clearProgressTimer();
+    this.status = 'cancelled';
+    this.timeCompleted = timestamp();
+    this.device.actionNotify(this);
+  }
 }
@@ -11,7 +11,15 @@
 
 import { Action } from './action';
 import { AddonManagerProxy } from './addon-manager-proxy';
+import { Database } from './database';
 import { Device } from './device';
+import { DeviceRecord, DeviceRegistry } from './device-registry';
+import { DiscoveryCandidate, DiscoveryProvider, runDiscovery } from './discovery';
+import { PairingSession } from './pairing-session';
+import { PairingError, PairingFlow, PairingFlowOptions, PairingStep } from './pairing-flow';
+import { FileSecretsStore, MemorySecretsStore, SecretsStore } from './secrets-store';
+import { EventEmitter } from 'events';
+import path from 'path';
 import { DeviceWithoutId as DeviceWithoutIdSchema, Preferences, UserProfile } from './schema';
 
 export interface AdapterDescription {
@@ -24,8 +32,11 @@ export interface AdapterDescription {
  * Base class for adapters, which manage devices.
  * @class Adapter
  *
+ * Emits:
+ *  - 'deviceEdited'(device, edits) when the user's changes in the gateway
+ *    have been merged into a device, see handleDeviceSaved()
  */
-export class Adapter {
+export class Adapter extends EventEmitter {
   private manager: AddonManagerProxy;
 
   private id: string;
@@ -38,8 +49,6 @@ export class Adapter {
 
   private devices: Record<string, Device> = {};
 
-  private actions: Record<string, Action> = {};
-
   private ready: boolean;
 
   private gatewayVersion?: string;
@@ -48,12 +57,25 @@ export class Adapter {
 
   private preferences?: Preferences;
 
+  private pairingSession?: PairingSession | null;
+
+  private pairingFlows = new Map<string, PairingFlow>();
+
+  private secretsStore?: SecretsStore | null;
+
+  private deviceRegistry?: DeviceRegistry | null;
+
+  private deviceRecords: Record<string, DeviceRecord> = {};
+
+  private savedDevices: Record<string, DeviceWithoutIdSchema> = {};
+
   constructor(
     manager: AddonManagerProxy,
     id: string,
     packageName: string,
     { verbose }: Record<string, unknown> = {}
   ) {
+    super();
     this.manager = manager;
     this.id = id;
     this.packageName = packageName;
@@ -95,8 +117,16 @@ export class Adapter {
     return this.devices;
   }
 
+  /**
+   * @method getActions
+   * @returns the in-flight actions of all devices, keyed by action ID.
+   */
   getActions(): Record<string, Action> {
-    return this.actions;
+    const actions: Record<string, Action> = {};
+    for (const device of Object.values(this.devices)) {
+      Object.assign(actions, device.getActions());
+    }
+    return actions;
   }
 
   getName(): string {
@@ -147,10 +177,28 @@ export class Adapter {
    * @method handleDeviceAdded
    *
    * Called to indicate that a device is now being managed by this adapter.
+   * In verbose mode, problems found by Device.validateCapabilities() are
+   * logged.
    */
   handleDeviceAdded(device: Device): void {
+    if (this.verbose) {
+      for (const problem of device.validateCapabilities()) {
+        console.warn('Adapter:', this.name, 'device', device.getId(), problem.message);
+      }
+    }
+
+    // Keep what the user changed in the gateway, rather than overwriting it
+    // with the adapter's defaults.
+    const saved = this.savedDevices[device.getId()];
+    const edits = saved ? device.applyUserEdits(saved) : {};
+
     this.devices[device.getId()] = device;
     this.manager.handleDeviceAdded(device);
+    device.startPolling();
+
+    if (Object.keys(edits).length > 0) {
+      this.emit('deviceEdited', device, edits);
+    }
   }
 
   /**
@@ -160,7 +208,17 @@ export class Adapter {
    */
   handleDeviceRemoved(device: Device): void {
     delete this.devices[device.getId()];
+    delete this.savedDevices[device.getId()];
+    device.stopPolling();
+    device.stopNotifications();
     this.manager.handleDeviceRemoved(device);
+
+    if (this.deviceRegistry) {
+      delete this.deviceRecords[device.getId()];
+      this.deviceRegistry.remove(device.getId()).catch((e) => {
+        console.error('Adapter:', this.name, 'failed to forget device', device.getId(), e);
+      });
+    }
   }
 
   /**
@@ -174,17 +232,257 @@ export class Adapter {
    * discovered, such that the adapter can rebuild those, clean up old nodes,
    * etc.
    *
+   * By default, the user's edits are merged into the device, or into the
+   * device once it is added, and 'deviceEdited' is emitted if anything
+   * changed.
+   *
    * @param {string} deviceId - ID of the device
    * @param {object} device - the saved device description
    */
-  handleDeviceSaved(_deviceId: string, _device: DeviceWithoutIdSchema): void {
-    // pass
+  handleDeviceSaved(deviceId: string, device: DeviceWithoutIdSchema): void {
+    this.savedDevices[deviceId] = device;
+
+    const liveDevice = this.devices[deviceId];
+    if (liveDevice) {
+      const edits = liveDevice.applyUserEdits(device);
+      if (Object.keys(edits).length > 0) {
+        this.emit('deviceEdited', liveDevice, edits);
+      }
+    }
+
+    this.saveDeviceRecord(deviceId, device);
+  }
+
+  /**
+   * Keep devices in the add-on's database, and restore the stored ones. The
+   * restored devices are added as disconnected, until the driver reconnects
+   * to them and calls connectedNotify(true). Devices which the gateway
+   * reported as saved before the database was opened are stored then.
+   *
+   * Call this after the adapter has been added to the manager.
+   *
+   * @param {Database} database - Database to use. Defaults to the add-on's
+   *                   database.
+   * @returns a promise which resolves to the restored devices.
+   */
+  enableDeviceRegistry(database?: Database): Promise<Device[]> {
+    const db = database ?? new Database(this.packageName);
+    return db
+      .open()
+      .then(() => {
+        this.deviceRegistry = new DeviceRegistry(db, this.id);
+        return this.deviceRegistry.load();
+      })
+      .then((records) => {
+        this.deviceRecords = records;
+
+        const restored: Device[] = [];
+        for (const [deviceId, record] of Object.entries(records)) {
+          if (this.devices[deviceId]) {
+            continue;
+          }
+
+          let device: Device | null;
+          try {
+            device = this.restoreDevice(deviceId, record);
+          } catch (e) {
+            console.error('Adapter:', this.name, 'failed to restore device', deviceId, e);
+            continue;
+          }
+
+          if (device) {
+            this.handleDeviceAdded(device);
+            device.connectedNotify(false);
+            restored.push(device);
+          }
+        }
+
+        return Promise.all(
+          Object.entries(this.savedDevices).map(([deviceId, saved]) =>
+            this.saveDeviceRecord(deviceId, saved)
+          )
+        ).then(() => restored);
+      });
   }
 
-  startPairing(_timeoutSeconds: number): void {
+  getDeviceRegistry(): DeviceRegistry | null {
+    return this.deviceRegistry ?? null;
+  }
+
+  /**
+   * @method restoreDevice
+   * @returns the device rebuilt from a stored record, or null to skip it.
+   *
+   * Called by enableDeviceRegistry() for every stored device. Adapters
+   * override this to build their own Device subclass and to pick up the
+   * connection data.
+   */
+  restoreDevice(deviceId: string, record: DeviceRecord): Device | null {
+    return Device.fromDescription(this, deviceId, record.description);
+  }
+
+  /**
+   * @method getConnectionData
+   * @returns adapter specific data which is stored with the device, and
+   *          needed to reconnect to it after a restart.
+   */
+  getConnectionData(_device: Device): Record<string, unknown> {
+    return {};
+  }
+
+  /**
+   * @method saveDevice
+   *
+   * Store a device in the registry again, e.g. when its connection data has
+   * changed. Only devices which the user has saved to the gateway are kept,
+   * and nothing is stored unless the registry is enabled.
+   *
+   * @returns a promise which resolves when the device has been stored.
+   */
+  saveDevice(device: Device): Promise<void> {
+    const saved = this.savedDevices[device.getId()];
+    if (!saved) {
+      return Promise.resolve();
+    }
+
+    return this.saveDeviceRecord(device.getId(), saved);
+  }
+
+  /**
+   * Store a device in the registry, if it is enabled. The adapter's own
+   * description is preferred over the one from the gateway.
+   */
+  private saveDeviceRecord(deviceId: string, saved: DeviceWithoutIdSchema): Promise<void> {
+    const registry = this.deviceRegistry;
+    if (!registry) {
+      return Promise.resolve();
+    }
+
+    const device = this.devices[deviceId];
+    let description = saved;
+    let connection = this.deviceRecords[deviceId]?.connection ?? {};
+    if (device) {
+      description = device.asDict();
+      delete description.id;
+      connection = this.getConnectionData(device);
+    }
+
+    return registry
+      .save(deviceId, description, connection)
+      .then((record) => {
+        this.deviceRecords[deviceId] = record;
+      })
+      .catch((e) => {
+        console.error('Adapter:', this.name, 'failed to store device', deviceId, e);
+      });
+  }
+
+  /**
+   * @method startPairing
+   *
+   * Called when the gateway starts pairing. Starts a pairing session, which
+   * runs discover(). Adapters which override this without calling it manage
+   * pairing themselves.
+   *
+   * @param {number} timeoutSeconds - How long pairing may run
+   */
+  startPairing(timeoutSeconds: number): void {
     if (this.verbose) {
       console.log('Adapter:', this.name, 'id', this.id, 'pairing started');
     }
+
+    this.startPairingSession(timeoutSeconds);
+  }
+
+  /**
+   * Start a new pairing session, ending the current one if any.
+   *
+   * @returns the new session.
+   */
+  startPairingSession(timeoutSeconds: number): PairingSession {
+    this.pairingSession?.cancel();
+
+    // Starting over gives devices which ran out of attempts another chance.
+    this.pairingFlows.forEach((flow) => flow.resetAttempts());
+
+    const session = new PairingSession(this, timeoutSeconds);
+    this.pairingSession = session;
+
+    session.on('end', (reason) => {
+      if (this.pairingSession === session) {
+        this.pairingSession = null;
+      }
+
+      if (this.verbose) {
+        console.log('Adapter:', this.name, 'id', this.id, 'pairing session ended:', reason);
+      }
+    });
+
+    this.discover(session)
+      .catch((e) => {
+        console.error('Adapter:', this.name, 'id', this.id, 'discovery failed:', e);
+      })
+      .then(() => session.end('completed'));
+
+    return session;
+  }
+
+  /**
+   * @returns the active pairing session, if any.
+   */
+  getPairingSession(): PairingSession | null {
+    return this.pairingSession ?? null;
+  }
+
+  /**
+   * @method discover
+   * @returns a promise which resolves when discovery has finished.
+   *
+   * Called for every pairing session. By default, this runs the providers from
+   * getDiscoveryProviders(), or, if there are none, waits until the session
+   * times out or is cancelled. Adapters can override it to search for devices
+   * some other way, report them with session.addDevice() and stop when
+   * session.getSignal() is aborted. The session ends when the promise settles.
+   */
+  discover(session: PairingSession): Promise<void> {
+    const providers = this.getDiscoveryProviders();
+    const signal = session.getSignal();
+
+    if (providers.length === 0) {
+      return new Promise((resolve) => {
+        if (signal.aborted) {
+          resolve();
+        } else {
+          signal.addEventListener('abort', () => resolve());
+        }
+      });
+    }
+
+    return runDiscovery(providers, signal, (candidate) =>
+      this.handleDiscoveryCandidate(candidate, session)
+    );
+  }
+
+  /**
+   * @method getDiscoveryProviders
+   * @returns the providers which the default discover() runs, e.g. an
+   *          MdnsProvider for the service type the adapter's devices announce.
+   */
+  getDiscoveryProviders(): DiscoveryProvider[] {
+    return [];
+  }
+
+  /**
+   * @method handleDiscoveryCandidate
+   *
+   * Called by the default discover() for every candidate found by the
+   * discovery providers. Adapters override this to build a device for the
+   * candidate and report it with session.addDevice().
+   */
+  handleDiscoveryCandidate(candidate: DiscoveryCandidate, _session: PairingSession): void {
+    if (this.verbose) {
+      console.log('Adapter:', this.name, 'id', this.id, 'found candidate', candidate.id);
+    }
   }
 
   /**
@@ -215,6 +513,8 @@ export class Adapter {
     if (this.verbose) {
       console.log('Adapter:', this.name, 'id', this.id, 'pairing cancelled');
     }
+
+    this.pairingSession?.cancel();
   }
 
   removeThing(device: Device): void {
@@ -249,61 +549,211 @@ export class Adapter {
       console.log('Adapter:', this.name, 'unloaded');
     }
 
+    this.pairingSession?.cancel();
     return Promise.resolve();
   }
 
+  /**
+   * Declare the pairing steps of a device, replacing the default flow which
+   * is derived from the device's pinRequired and credentialsRequired flags.
+   */
+  setPairingFlow(deviceId: string, options: PairingFlowOptions): PairingFlow {
+    const flow = new PairingFlow(options);
+    this.pairingFlows.set(deviceId, flow);
+    return flow;
+  }
+
+  /**
+   * @returns the pairing flow of a device.
+   */
+  getPairingFlow(device: Device): PairingFlow {
+    let flow = this.pairingFlows.get(device.getId());
+    if (!flow) {
+      const steps: PairingStep[] = [];
+      if (device.getPinRequired()) {
+        steps.push('pin');
+      }
+
+      if (device.getCredentialsRequired()) {
+        steps.push('credentials');
+      }
+
+      flow = this.setPairingFlow(device.getId(), { steps });
+    }
+
+    return flow;
+  }
+
+  /**
+   * @returns the store used for device credentials. By default, secrets are
+   *          kept encrypted in the adapter's data directory.
+   */
+  getSecretsStore(): SecretsStore {
+    if (!this.secretsStore) {
+      const dataDir = this.userProfile?.dataDir;
+      this.secretsStore = dataDir
+        ? new FileSecretsStore(path.join(dataDir, this.packageName))
+        : new MemorySecretsStore();
+    }
+
+    return this.secretsStore;
+  }
+
+  setSecretsStore(store: SecretsStore): void {
+    this.secretsStore = store;
+  }
+
+  /**
+   * @returns a promise which resolves to the stored credentials of a device,
+   *          or null if there are none.
+   */
+  getCredentials(deviceId: string): Promise<{ username: string; password: string } | null> {
+    return this.getSecretsStore()
+      .get(`credentials/${deviceId}`)
+      .then((secret) => (secret ? JSON.parse(secret) : null));
+  }
+
   /**
    * Set the PIN for the given device.
    *
+   * The whole PIN has to match the device's pinPattern before verifyPin() is
+   * called. A failed verification uses up one of the attempts of the device's
+   * pairing flow. Starting a new pairing session gives all attempts back.
+   *
    * @param {String} deviceId ID of device
    * @param {String} pin PIN to set
    *
-   * @returns a promise which resolves when the PIN has been set.
+   * @returns a promise which resolves when the PIN has been set, or rejects
+   *          with a PairingError.
    */
   setPin(deviceId: string, pin: string): Promise<void> {
     const device = this.getDevice(deviceId);
-    if (device) {
-      if (this.verbose) {
-        console.log('Adapter:', this.name, 'id', this.id, 'setPin(', deviceId, ',', pin, ')');
-      }
+    if (!device) {
+      return Promise.reject(new PairingError('device-not-found', 'Device not found'));
+    }
 
-      return Promise.resolve();
+    if (this.verbose) {
+      console.log('Adapter:', this.name, 'id', this.id, 'setPin(', deviceId, ')');
     }
 
-    return Promise.reject('Device not found');
+    return Promise.resolve()
+      .then(() => {
+        // The pattern has to match the whole PIN. An invalid pattern rejects
+        // with a SyntaxError.
+        const pattern = device.getPinPattern();
+        if (pattern && !new RegExp(`^(?:${pattern})$`).test(pin)) {
+          throw new PairingError('invalid-pin', `PIN does not match the pattern ${pattern}`);
+        }
+      })
+      .then(() =>
+        this.runPairingStep(device, 'pin', 'incorrect-pin', () => this.verifyPin(device, pin))
+      );
   }
 
   /**
    * Set the username and password for the given device.
    *
+   * The credentials are passed to verifyCredentials() and, once accepted,
+   * stored in the secrets store. They are never logged.
+   *
    * @param {String} deviceId ID of device
    * @param {String} username Username to set
    * @param {String} password Password to set
    *
-   * @returns a promise which resolves when the credentials have been set.
+   * @returns a promise which resolves when the credentials have been set, or
+   *          rejects with a PairingError.
    */
   setCredentials(deviceId: string, username: string, password: string): Promise<void> {
     const device = this.getDevice(deviceId);
-    if (device) {
-      if (this.verbose) {
-        console.log(
-          'Adapter:',
-          this.name,
-          'id',
-          this.id,
-          'setCredentials(',
-          deviceId,
-          ',',
-          username,
-          ',',
-          password,
-          ')'
-        );
-      }
+    if (!device) {
+      return Promise.reject(new PairingError('device-not-found', 'Device not found'));
+    }
 
-      return Promise.resolve();
+    if (this.verbose) {
+      console.log(
+        'Adapter:',
+        this.name,
+        'id',
+        this.id,
+        'setCredentials(',
+        deviceId,
+        ',',
+        username,
+        ')'
+      );
+    }
+
+    return this.runPairingStep(device, 'credentials', 'incorrect-credentials', () =>
+      this.verifyCredentials(device, username, password).then(() =>
+        this.getSecretsStore().set(
+          `credentials/${deviceId}`,
+          JSON.stringify({ username, password })
+        )
+      )
+    );
+  }
+
+  /**
+   * @method verifyPin
+   * @returns a promise which resolves if the device accepted the PIN.
+   *
+   * Called by setPin() with a PIN which matches the device's pinPattern.
+   * Adapters override this to pass the PIN to the device.
+   */
+  verifyPin(_device: Device, _pin: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * @method verifyCredentials
+   * @returns a promise which resolves if the device accepted the credentials.
+   *
+   * Called by setCredentials(). Adapters override this to log in to the
+   * device.
+   */
+  verifyCredentials(_device: Device, _username: string, _password: string): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private runPairingStep(
+    device: Device,
+    step: PairingStep,
+    failureReason: 'incorrect-pin' | 'incorrect-credentials',
+    verify: () => Promise<void>
+  ): Promise<void> {
+    const flow = this.getPairingFlow(device);
+    try {
+      flow.checkAttempt(step);
+    } catch (e) {
+      return Promise.reject(e);
     }
 
-    return Promise.reject('Device not found');
+    return verify().then(
+      () => {
+        flow.recordSuccess(step);
+        if (flow.isComplete()) {
+          this.pairingFlows.delete(device.getId());
+        }
+      },
+      (e) => {
+        const remaining = flow.recordFailure(step);
+        if (e instanceof PairingError) {
+          throw e;
+        }
+
+        let detail = 'Rejected by the device';
+        if (e instanceof Error) {
+          detail = e.message;
+        } else if (e) {
+          detail = `${e}`;
+        }
+
+        if (remaining <= 0) {
+          throw new PairingError('too-many-attempts', `${detail}; no attempts left`);
+        }
+
+        throw new PairingError(failureReason, `${detail}; ${remaining} attempt(s) left`);
+      }
+    );
   }
 }
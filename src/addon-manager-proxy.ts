@@ -16,14 +16,24 @@ import { Device } from './device';
 import { Event } from './event';
 import { Notifier } from './notifier';
 import { Outlet } from './outlet';
-import { PluginClient } from './plugin-client';
+import { PairingError } from './pairing-flow';
+import {
+  dispatchError,
+  DispatchError,
+  MessageDispatcher,
+  MessageHandler,
+} from './message-dispatcher';
+import { PluginClient, RequestOptions } from './plugin-client';
 import { Property } from './property';
 import { MessageType } from './message-type';
 import { EventEmitter } from 'events';
 import {
+  AdapterCancelPairingCommand,
+  AdapterCancelRemoveDeviceCommand,
   AdapterPairingPromptNotificationMessageData,
   AdapterRemoveDeviceRequest,
   AdapterStartPairingCommand,
+  AdapterUnloadRequest,
   AdapterUnpairingPromptNotificationMessageData,
   Any,
   APIHandlerAPIRequest,
@@ -33,17 +43,20 @@ import {
   DeviceSavedNotification,
   DeviceSetCredentialsRequest,
   DeviceSetPINRequest,
+  DeviceSetPINResponseMessageData,
   DeviceSetPropertyCommand,
   Message,
   MockAdapterAddDeviceRequest,
+  MockAdapterClearStateRequest,
   MockAdapterPairDeviceCommand,
   MockAdapterRemoveDeviceRequest,
   MockAdapterUnpairDeviceCommand,
-  NotifierAddedNotification,
+  NotifierUnloadRequest,
   OutletNotifyRequest,
   Preferences,
   UserProfile,
 } from './schema';
+import { redactMessage } from './utils';
 
 interface MockAdapter {
   clearState(): Promise<void>;
@@ -53,6 +66,41 @@ interface MockAdapter {
   unpairDevice(deviceId: string): Promise<void>;
 }
 
+interface AdapterMessage {
+  messageType: number;
+  data: { adapterId: string };
+}
+
+interface DeviceMessage extends AdapterMessage {
+  data: { adapterId: string; deviceId: string };
+}
+
+interface NotifierMessage {
+  messageType: number;
+  data: { notifierId: string };
+}
+
+interface APIHandlerMessage {
+  messageType: number;
+  data: { packageName: string };
+}
+
+/**
+ * Describe why setPin() or setCredentials() failed, for the response to the
+ * gateway.
+ */
+function pairingFailure(err: unknown): Pick<DeviceSetPINResponseMessageData, 'reason' | 'error'> {
+  if (err instanceof PairingError) {
+    return { reason: err.reason, error: err.message };
+  }
+
+  if (err instanceof Error) {
+    return { reason: 'failed', error: err.message };
+  }
+
+  return err ? { reason: 'failed', error: `${err}` } : { reason: 'failed' };
+}
+
 export class AddonManagerProxy extends EventEmitter {
   private gatewayVersion?: string;
 
@@ -68,6 +116,8 @@ export class AddonManagerProxy extends EventEmitter {
 
   private apiHandlers = new Map<string, APIHandler>();
 
+  private dispatcher = new MessageDispatcher();
+
   constructor(private pluginClient: PluginClient, { verbose }: Record<string, unknown> = {}) {
     super();
 
@@ -75,6 +125,8 @@ export class AddonManagerProxy extends EventEmitter {
     this.userProfile = pluginClient.getUserProfile();
     this.preferences = pluginClient.getPreferences();
     this.verbose = !!verbose;
+
+    this.registerHandlers();
   }
 
   getGatewayVersion(): string | undefined {
@@ -99,11 +151,7 @@ export class AddonManagerProxy extends EventEmitter {
     this.verbose && console.log('AddonManagerProxy: addAdapter:', adapterId);
 
     this.adapters.set(adapterId, adapter);
-    this.pluginClient.sendNotification(MessageType.ADAPTER_ADDED_NOTIFICATION, {
-      adapterId: adapter.getId(),
-      name: adapter.getName(),
-      packageName: adapter.getPackageName(),
-    });
+    this.sendAdapterAddedNotification(adapter);
   }
 
   /**
@@ -116,11 +164,7 @@ export class AddonManagerProxy extends EventEmitter {
     this.verbose && console.log('AddonManagerProxy: addNotifier:', notifierId);
 
     this.notifiers.set(notifierId, notifier);
-    this.pluginClient.sendNotification(MessageType.NOTIFIER_ADDED_NOTIFICATION, {
-      notifierId: notifier.getId(),
-      name: notifier.getName(),
-      packageName: notifier.getPackageName(),
-    });
+    this.sendNotifierAddedNotification(notifier);
   }
 
   /**
@@ -133,8 +177,59 @@ export class AddonManagerProxy extends EventEmitter {
     this.verbose && console.log('AddonManagerProxy: addAPIHandler:', packageName);
 
     this.apiHandlers.set(packageName, handler);
+    this.sendAPIHandlerAddedNotification(handler);
+  }
+
+  /**
+   * @method replay
+   *
+   * Announces every known adapter, device, notifier, outlet and API handler to
+   * the gateway again. Called after the plugin has re-registered following a
+   * lost connection.
+   */
+  replay(): void {
+    this.verbose && console.log('AddonManagerProxy: replay');
+
+    this.adapters.forEach((adapter) => {
+      this.sendAdapterAddedNotification(adapter);
+
+      for (const device of Object.values(adapter.getDevices())) {
+        this.handleDeviceAdded(device);
+      }
+    });
+
+    this.notifiers.forEach((notifier) => {
+      this.sendNotifierAddedNotification(notifier);
+
+      for (const outlet of Object.values(notifier.getOutlets())) {
+        this.handleOutletAdded(outlet);
+      }
+    });
+
+    this.apiHandlers.forEach((handler) => {
+      this.sendAPIHandlerAddedNotification(handler);
+    });
+  }
+
+  private sendAdapterAddedNotification(adapter: Adapter): void {
+    this.pluginClient.sendNotification(MessageType.ADAPTER_ADDED_NOTIFICATION, {
+      adapterId: adapter.getId(),
+      name: adapter.getName(),
+      packageName: adapter.getPackageName(),
+    });
+  }
+
+  private sendNotifierAddedNotification(notifier: Notifier): void {
+    this.pluginClient.sendNotification(MessageType.NOTIFIER_ADDED_NOTIFICATION, {
+      notifierId: notifier.getId(),
+      name: notifier.getName(),
+      packageName: notifier.getPackageName(),
+    });
+  }
+
+  private sendAPIHandlerAddedNotification(handler: APIHandler): void {
     this.pluginClient.sendNotification(MessageType.API_HANDLER_ADDED_NOTIFICATION, {
-      packageName,
+      packageName: handler.getPackageName(),
     });
   }
 
@@ -190,46 +285,141 @@ export class AddonManagerProxy extends EventEmitter {
     });
   }
 
+  /**
+   * @method getMessageDispatcher
+   *
+   * @returns the dispatcher routing incoming messages, which can be used to
+   *          register handlers for additional message types.
+   */
+  getMessageDispatcher(): MessageDispatcher {
+    return this.dispatcher;
+  }
+
   /**
    * @method onMsg
    * Called whenever a message is received from the gateway.
+   *
+   * @returns null if the message was handled, otherwise the reason why not.
    */
-  onMsg(genericMsg: Message): void {
-    this.verbose && console.log('AddonManagerProxy: Rcvd:', genericMsg);
+  onMsg(genericMsg: Message): DispatchError | null {
+    this.verbose && console.log('AddonManagerProxy: Rcvd:', redactMessage(genericMsg));
 
-    switch (genericMsg.messageType) {
-      case MessageType.PLUGIN_UNLOAD_REQUEST:
-        this.unloadPlugin();
-        return;
+    const err = this.dispatcher.dispatch(genericMsg);
+    if (err) {
+      console.error(`AddonManagerProxy: ${err.message}`);
+      console.error('AddonManagerProxy: Ignoring msg:', genericMsg);
+    }
 
-      case MessageType.API_HANDLER_UNLOAD_REQUEST: {
-        const msg = <APIHandlerUnloadRequest>genericMsg;
-        const packageName = msg.data.packageName;
-        const handler = this.apiHandlers.get(packageName);
-        if (!handler) {
-          console.error('AddonManagerProxy: Unrecognized handler:', packageName);
-          console.error('AddonManagerProxy: Ignoring msg:', genericMsg);
-          return;
-        }
+    return err;
+  }
+
+  /**
+   * Wrap a handler for a message addressed to an adapter.
+   */
+  private withAdapter<T extends AdapterMessage>(
+    handler: (msg: T, adapter: MockAdapter & Adapter) => DispatchError | null | void
+  ): MessageHandler<T> {
+    return (msg) => {
+      const adapterId = msg.data.adapterId;
+      const adapter = <(MockAdapter & Adapter) | undefined>this.adapters.get(adapterId);
+      if (!adapter) {
+        return dispatchError(
+          msg.messageType,
+          'unknown-adapter',
+          `Unrecognized adapter: ${adapterId}`
+        );
+      }
+
+      return handler(msg, adapter);
+    };
+  }
+
+  /**
+   * Wrap a handler for a message addressed to a device.
+   */
+  private withDevice<T extends DeviceMessage>(
+    handler: (msg: T, adapter: MockAdapter & Adapter, device: Device) => DispatchError | null | void
+  ): MessageHandler<T> {
+    return this.withAdapter<T>((msg, adapter) => {
+      const deviceId = msg.data.deviceId;
+      const device = adapter.getDevice(deviceId);
+      if (!device) {
+        return dispatchError(msg.messageType, 'unknown-device', `No such device: ${deviceId}`);
+      }
+
+      return handler(msg, adapter, device);
+    });
+  }
+
+  /**
+   * Wrap a handler for a message addressed to a notifier.
+   */
+  private withNotifier<T extends NotifierMessage>(
+    handler: (msg: T, notifier: Notifier) => DispatchError | null | void
+  ): MessageHandler<T> {
+    return (msg) => {
+      const notifierId = msg.data.notifierId;
+      const notifier = this.notifiers.get(notifierId);
+      if (!notifier) {
+        return dispatchError(
+          msg.messageType,
+          'unknown-notifier',
+          `Unrecognized notifier: ${notifierId}`
+        );
+      }
+
+      return handler(msg, notifier);
+    };
+  }
+
+  /**
+   * Wrap a handler for a message addressed to an API handler.
+   */
+  private withAPIHandler<T extends APIHandlerMessage>(
+    handler: (msg: T, apiHandler: APIHandler) => DispatchError | null | void
+  ): MessageHandler<T> {
+    return (msg) => {
+      const packageName = msg.data.packageName;
+      const apiHandler = this.apiHandlers.get(packageName);
+      if (!apiHandler) {
+        return dispatchError(
+          msg.messageType,
+          'unknown-api-handler',
+          `Unrecognized handler: ${packageName}`
+        );
+      }
+
+      return handler(msg, apiHandler);
+    };
+  }
+
+  /**
+   * Register the handlers for all messages the gateway sends to a plugin.
+   */
+  private registerHandlers(): void {
+    const dispatcher = this.dispatcher;
+
+    dispatcher.register(MessageType.PLUGIN_UNLOAD_REQUEST, () => {
+      this.unloadPlugin();
+    });
 
+    dispatcher.register(
+      MessageType.API_HANDLER_UNLOAD_REQUEST,
+      this.withAPIHandler((msg: APIHandlerUnloadRequest, handler) => {
+        const packageName = msg.data.packageName;
         handler.unload().then(() => {
           this.apiHandlers.delete(packageName);
           this.pluginClient.sendNotification(MessageType.API_HANDLER_UNLOAD_RESPONSE, {
             packageName,
           });
         });
-        return;
-      }
-      case MessageType.API_HANDLER_API_REQUEST: {
-        const msg = <APIHandlerAPIRequest>genericMsg;
-        const packageName = (<APIHandlerAPIRequest>msg).data.packageName;
-        const handler = this.apiHandlers.get(packageName);
-        if (!handler) {
-          console.error('AddonManagerProxy: Unrecognized handler:', packageName);
-          console.error('AddonManagerProxy: Ignoring msg:', msg);
-          return;
-        }
+      })
+    );
 
+    dispatcher.register(
+      MessageType.API_HANDLER_API_REQUEST,
+      this.withAPIHandler((msg: APIHandlerAPIRequest, handler) => {
+        const packageName = msg.data.packageName;
         const request = new APIRequest(msg.data.request);
         handler
           .handleRequest(request)
@@ -252,110 +442,95 @@ export class AddonManagerProxy extends EventEmitter {
               }),
             });
           });
-        return;
-      }
-    }
-
-    // Next, handle notifier messages.
-    if (genericMsg.data.hasOwnProperty('notifierId')) {
-      const msg = <NotifierAddedNotification>genericMsg;
-      const notifierId = msg.data.notifierId;
-      const notifier = this.notifiers.get(notifierId);
-      if (!notifier) {
-        console.error('AddonManagerProxy: Unrecognized notifier:', notifierId);
-        console.error('AddonManagerProxy: Ignoring msg:', genericMsg);
-        return;
-      }
+      })
+    );
 
-      switch (genericMsg.messageType) {
-        case MessageType.NOTIFIER_UNLOAD_REQUEST:
-          notifier.unload().then(() => {
-            this.notifiers.delete(notifierId);
-            this.pluginClient.sendNotification(MessageType.NOTIFIER_UNLOAD_RESPONSE, {
-              notifierId: notifier.getId(),
-            });
+    dispatcher.register(
+      MessageType.NOTIFIER_UNLOAD_REQUEST,
+      this.withNotifier((_msg: NotifierUnloadRequest, notifier) => {
+        notifier.unload().then(() => {
+          this.notifiers.delete(notifier.getId());
+          this.pluginClient.sendNotification(MessageType.NOTIFIER_UNLOAD_RESPONSE, {
+            notifierId: notifier.getId(),
           });
-          break;
-        case MessageType.OUTLET_NOTIFY_REQUEST: {
-          const msg = <OutletNotifyRequest>genericMsg;
-          const outletId = msg.data.outletId;
-          const outlet = notifier.getOutlet(outletId);
-          if (!outlet) {
-            console.error('AddonManagerProxy: No such outlet:', outletId);
-            console.error('AddonManagerProxy: Ignoring msg:', msg);
-            return;
-          }
-
-          outlet
-            .notify(msg.data.title, msg.data.message, msg.data.level)
-            .then(() => {
-              this.pluginClient.sendNotification(MessageType.OUTLET_NOTIFY_RESPONSE, {
-                notifierId: notifierId,
-                outletId: outletId,
-                messageId: msg.data.messageId,
-                success: true,
-              });
-            })
-            .catch((err) => {
-              console.error('AddonManagerProxy: Failed to notify outlet:', err);
-              this.pluginClient.sendNotification(MessageType.OUTLET_NOTIFY_RESPONSE, {
-                notifierId: notifierId,
-                outletId: outletId,
-                messageId: msg.data.messageId,
-                success: false,
-              });
-            });
-          break;
-        }
-      }
+        });
+      })
+    );
 
-      return;
-    }
+    dispatcher.register(
+      MessageType.OUTLET_NOTIFY_REQUEST,
+      this.withNotifier((msg: OutletNotifyRequest, notifier) => {
+        const notifierId = notifier.getId();
+        const outletId = msg.data.outletId;
+        const outlet = notifier.getOutlet(outletId);
+        if (!outlet) {
+          return dispatchError(msg.messageType, 'unknown-outlet', `No such outlet: ${outletId}`);
+        }
 
-    // The next switch covers adapter messages. i.e. don't have a deviceId.
-    // or don't need a device object.
+        outlet
+          .notify(msg.data.title, msg.data.message, msg.data.level)
+          .then(() => {
+            this.pluginClient.sendNotification(MessageType.OUTLET_NOTIFY_RESPONSE, {
+              notifierId: notifierId,
+              outletId: outletId,
+              messageId: msg.data.messageId,
+              success: true,
+            });
+          })
+          .catch((err) => {
+            console.error('AddonManagerProxy: Failed to notify outlet:', err);
+            this.pluginClient.sendNotification(MessageType.OUTLET_NOTIFY_RESPONSE, {
+              notifierId: notifierId,
+              outletId: outletId,
+              messageId: msg.data.messageId,
+              success: false,
+            });
+          });
 
-    const noDeviceIdMsg = <AdapterStartPairingCommand>genericMsg;
-    const adapterId = noDeviceIdMsg.data.adapterId;
-    const adapter: (MockAdapter & Adapter) | undefined = <MockAdapter & Adapter>(
-      this.adapters.get(adapterId)
+        return null;
+      })
     );
-    if (!adapter) {
-      console.error('AddonManagerProxy: Unrecognized adapter:', adapterId);
-      console.error('AddonManagerProxy: Ignoring msg:', noDeviceIdMsg);
-      return;
-    }
 
-    switch (genericMsg.messageType) {
-      case MessageType.ADAPTER_START_PAIRING_COMMAND: {
-        const msg = <AdapterStartPairingCommand>genericMsg;
+    dispatcher.register(
+      MessageType.ADAPTER_START_PAIRING_COMMAND,
+      this.withAdapter((msg: AdapterStartPairingCommand, adapter) => {
         adapter.startPairing(msg.data.timeout);
-        return;
-      }
-      case MessageType.ADAPTER_CANCEL_PAIRING_COMMAND:
+      })
+    );
+
+    dispatcher.register(
+      MessageType.ADAPTER_CANCEL_PAIRING_COMMAND,
+      this.withAdapter((_msg: AdapterCancelPairingCommand, adapter) => {
         adapter.cancelPairing();
-        return;
+      })
+    );
 
-      case MessageType.ADAPTER_UNLOAD_REQUEST:
+    dispatcher.register(
+      MessageType.ADAPTER_UNLOAD_REQUEST,
+      this.withAdapter((_msg: AdapterUnloadRequest, adapter) => {
         adapter.unload().then(() => {
-          this.adapters.delete(adapterId);
+          this.adapters.delete(adapter.getId());
           this.pluginClient.sendNotification(MessageType.ADAPTER_UNLOAD_RESPONSE, {
             adapterId: adapter.getId(),
           });
         });
-        return;
+      })
+    );
 
-      case MessageType.MOCK_ADAPTER_CLEAR_STATE_REQUEST:
+    dispatcher.register(
+      MessageType.MOCK_ADAPTER_CLEAR_STATE_REQUEST,
+      this.withAdapter((_msg: MockAdapterClearStateRequest, adapter) => {
         adapter.clearState().then(() => {
           this.pluginClient.sendNotification(MessageType.MOCK_ADAPTER_CLEAR_STATE_RESPONSE, {
             adapterId: adapter.getId(),
           });
         });
-        return;
-
-      case MessageType.MOCK_ADAPTER_ADD_DEVICE_REQUEST: {
-        const msg = <MockAdapterAddDeviceRequest>genericMsg;
+      })
+    );
 
+    dispatcher.register(
+      MessageType.MOCK_ADAPTER_ADD_DEVICE_REQUEST,
+      this.withAdapter((msg: MockAdapterAddDeviceRequest, adapter) => {
         adapter
           .addDevice(msg.data.deviceId, msg.data.deviceDescr)
           .then((device) => {
@@ -372,11 +547,12 @@ export class AddonManagerProxy extends EventEmitter {
               error: err,
             });
           });
-        return;
-      }
-      case MessageType.MOCK_ADAPTER_REMOVE_DEVICE_REQUEST: {
-        const msg = <MockAdapterRemoveDeviceRequest>genericMsg;
+      })
+    );
 
+    dispatcher.register(
+      MessageType.MOCK_ADAPTER_REMOVE_DEVICE_REQUEST,
+      this.withAdapter((msg: MockAdapterRemoveDeviceRequest, adapter) => {
         adapter
           .removeDevice(msg.data.deviceId)
           .then((device) => {
@@ -393,90 +569,98 @@ export class AddonManagerProxy extends EventEmitter {
               error: err,
             });
           });
-        return;
-      }
-      case MessageType.MOCK_ADAPTER_PAIR_DEVICE_COMMAND: {
-        const msg = <MockAdapterPairDeviceCommand>genericMsg;
+      })
+    );
 
+    dispatcher.register(
+      MessageType.MOCK_ADAPTER_PAIR_DEVICE_COMMAND,
+      this.withAdapter((msg: MockAdapterPairDeviceCommand, adapter) => {
         adapter.pairDevice(msg.data.deviceId, msg.data.deviceDescr);
-        return;
-      }
-      case MessageType.MOCK_ADAPTER_UNPAIR_DEVICE_COMMAND: {
-        const msg = <MockAdapterUnpairDeviceCommand>genericMsg;
+      })
+    );
+
+    dispatcher.register(
+      MessageType.MOCK_ADAPTER_UNPAIR_DEVICE_COMMAND,
+      this.withAdapter((msg: MockAdapterUnpairDeviceCommand, adapter) => {
         adapter.unpairDevice(msg.data.deviceId);
-        return;
-      }
+      })
+    );
 
-      case MessageType.DEVICE_SAVED_NOTIFICATION: {
-        const msg = <DeviceSavedNotification>genericMsg;
+    dispatcher.register(
+      MessageType.DEVICE_SAVED_NOTIFICATION,
+      this.withAdapter((msg: DeviceSavedNotification, adapter) => {
         adapter.handleDeviceSaved(msg.data.deviceId, msg.data.device);
-        return;
-      }
-    }
-
-    // All messages from here on are assumed to require a valid deviceId.
-
-    const deviceIdMessage = <AdapterRemoveDeviceRequest>genericMsg;
-    const deviceId = deviceIdMessage.data.deviceId;
-    const device = adapter.getDevice(deviceId);
-    if (!device) {
-      console.error('AddonManagerProxy: No such device:', deviceId);
-      console.error('AddonManagerProxy: Ignoring msg:', deviceIdMessage);
-      return;
-    }
+      })
+    );
 
-    switch (genericMsg.messageType) {
-      case MessageType.ADAPTER_REMOVE_DEVICE_REQUEST:
+    dispatcher.register(
+      MessageType.ADAPTER_REMOVE_DEVICE_REQUEST,
+      this.withDevice((_msg: AdapterRemoveDeviceRequest, adapter, device) => {
         adapter.removeThing(device);
-        break;
+      })
+    );
 
-      case MessageType.ADAPTER_CANCEL_REMOVE_DEVICE_COMMAND:
+    dispatcher.register(
+      MessageType.ADAPTER_CANCEL_REMOVE_DEVICE_COMMAND,
+      this.withDevice((_msg: AdapterCancelRemoveDeviceCommand, adapter, device) => {
         adapter.cancelRemoveThing(device);
-        break;
+      })
+    );
 
-      case MessageType.DEVICE_SET_PROPERTY_COMMAND: {
-        const msg = <DeviceSetPropertyCommand>genericMsg;
+    dispatcher.register(
+      MessageType.DEVICE_SET_PROPERTY_COMMAND,
+      this.withDevice((msg: DeviceSetPropertyCommand, _adapter, device) => {
+        const deviceId = device.getId();
         const propertyName = msg.data.propertyName;
         const propertyValue = msg.data.propertyValue;
         const property = device.findProperty(propertyName);
-        if (property) {
-          property
-            .setValue(propertyValue)
-            .then(() => {
-              if (property.isFireAndForget()) {
-                // This property doesn't send propertyChanged notifications,
-                // so we fake one.
-                this.sendPropertyChangedNotification(property);
-              } else {
-                // We should get a propertyChanged notification thru
-                // the normal channels, so don't sent another one here.
-                // We don't really need to do anything.
-              }
-            })
-            .catch((err) => {
-              // Something bad happened. The gateway is still
-              // expecting a reply, so we report the error
-              // and just send whatever the current value is.
-              console.error(
-                'AddonManagerProxy: Failed to setProperty',
-                propertyName,
-                'to',
-                propertyValue,
-                'for device:',
-                deviceId
-              );
-              if (err) {
-                console.error(err);
-              }
-              this.sendPropertyChangedNotification(property);
-            });
-        } else {
-          console.error('AddonManagerProxy: Unknown property:', propertyName);
+        if (!property) {
+          return dispatchError(
+            msg.messageType,
+            'unknown-property',
+            `Unknown property: ${propertyName}`
+          );
         }
-        break;
-      }
-      case MessageType.DEVICE_REQUEST_ACTION_REQUEST: {
-        const msg = <DeviceRequestActionRequest>genericMsg;
+
+        property
+          .setValue(propertyValue)
+          .then(() => {
+            if (property.isFireAndForget()) {
+              // This property doesn't send propertyChanged notifications,
+              // so we fake one.
+              this.sendPropertyChangedNotification(property);
+            } else {
+              // We should get a propertyChanged notification thru
+              // the normal channels, so don't sent another one here.
+              // We don't really need to do anything.
+            }
+          })
+          .catch((err) => {
+            // Something bad happened. The gateway is still
+            // expecting a reply, so we report the error
+            // and just send whatever the current value is.
+            console.error(
+              'AddonManagerProxy: Failed to setProperty',
+              propertyName,
+              'to',
+              propertyValue,
+              'for device:',
+              deviceId
+            );
+            if (err) {
+              console.error(err);
+            }
+            this.sendPropertyChangedNotification(property);
+          });
+
+        return null;
+      })
+    );
+
+    dispatcher.register(
+      MessageType.DEVICE_REQUEST_ACTION_REQUEST,
+      this.withDevice((msg: DeviceRequestActionRequest, adapter, device) => {
+        const deviceId = device.getId();
         const actionName = msg.data.actionName;
         const actionId = msg.data.actionId;
         const input = msg.data.input;
@@ -509,10 +693,13 @@ export class AddonManagerProxy extends EventEmitter {
               success: false,
             });
           });
-        break;
-      }
-      case MessageType.DEVICE_REMOVE_ACTION_REQUEST: {
-        const msg = <DeviceRemoveActionRequest>genericMsg;
+      })
+    );
+
+    dispatcher.register(
+      MessageType.DEVICE_REMOVE_ACTION_REQUEST,
+      this.withDevice((msg: DeviceRemoveActionRequest, adapter, device) => {
+        const deviceId = device.getId();
         const actionName = msg.data.actionName;
         const actionId = msg.data.actionId;
         const messageId = msg.data.messageId;
@@ -547,10 +734,13 @@ export class AddonManagerProxy extends EventEmitter {
               success: false,
             });
           });
-        break;
-      }
-      case MessageType.DEVICE_SET_PIN_REQUEST: {
-        const msg = <DeviceSetPINRequest>genericMsg;
+      })
+    );
+
+    dispatcher.register(
+      MessageType.DEVICE_SET_PIN_REQUEST,
+      this.withDevice((msg: DeviceSetPINRequest, adapter, device) => {
+        const deviceId = device.getId();
         const pin = msg.data.pin;
         const messageId = msg.data.messageId;
         adapter
@@ -575,12 +765,16 @@ export class AddonManagerProxy extends EventEmitter {
               messageId: messageId,
               adapterId: adapter.getId(),
               success: false,
+              ...pairingFailure(err),
             });
           });
-        break;
-      }
-      case MessageType.DEVICE_SET_CREDENTIALS_REQUEST: {
-        const msg = <DeviceSetCredentialsRequest>genericMsg;
+      })
+    );
+
+    dispatcher.register(
+      MessageType.DEVICE_SET_CREDENTIALS_REQUEST,
+      this.withDevice((msg: DeviceSetCredentialsRequest, adapter, device) => {
+        const deviceId = device.getId();
         const username = msg.data.username;
         const password = msg.data.password;
         const messageId = msg.data.messageId;
@@ -606,14 +800,11 @@ export class AddonManagerProxy extends EventEmitter {
               messageId: messageId,
               adapterId: adapter.getId(),
               success: false,
+              ...pairingFailure(err),
             });
           });
-        break;
-      }
-      default:
-        console.warn('AddonManagerProxy: unrecognized msg:', genericMsg);
-        break;
-    }
+      })
+    );
   }
 
   /**
@@ -725,6 +916,29 @@ export class AddonManagerProxy extends EventEmitter {
     this.pluginClient.sendNotification(MessageType.PLUGIN_UNLOAD_RESPONSE, {});
   }
 
+  /**
+   * @method request
+   *
+   * Sends a message to the gateway and waits for the matching reply.
+   *
+   * @returns a promise which resolves to the reply message.
+   */
+  request(
+    messageType: number,
+    data: Record<string, unknown> = {},
+    options: RequestOptions = {}
+  ): Promise<Message> {
+    return this.pluginClient.request(messageType, data, options);
+  }
+
+  /**
+   * @method getValidationFailures
+   * @returns the number of invalid messages received, keyed by messageType.
+   */
+  getValidationFailures(): Record<number, number> {
+    return this.pluginClient.getValidationFailures();
+  }
+
   sendError(message: string): void {
     this.pluginClient.sendNotification(MessageType.PLUGIN_ERROR_NOTIFICATION, {
       message,
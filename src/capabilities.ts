@@ -0,0 +1,221 @@
+/**
+ * Capabilities.
+ *
+ * Catalogue of the device capabilities and property types defined by the
+ * WebThings schema (https://webthings.io/schemas/), and checks of devices
+ * against it.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { PropertyValueType } from './schema';
+
+export interface PropertyTypeDefinition {
+  /**
+   * Allowed value types.
+   */
+  types: PropertyValueType[];
+
+  /**
+   * Allowed units. If present, a property which has a unit must use one of
+   * these.
+   */
+  units?: string[];
+}
+
+export interface CapabilityDefinition {
+  /**
+   * Property types the device must have. Each entry lists alternatives, of
+   * which at least one must be present.
+   */
+  requiredProperties: string[][];
+}
+
+const TEMPERATURE_UNITS = ['degree celsius', 'degree fahrenheit', 'kelvin'];
+
+/**
+ * Build a catalogue without a prototype, so that looking up names such as
+ * 'constructor' or 'toString' finds nothing.
+ */
+function catalogue<T>(entries: Record<string, T>): Record<string, T> {
+  return Object.assign(Object.create(null), entries);
+}
+
+export const PROPERTY_TYPES: Record<string, PropertyTypeDefinition> = catalogue({
+  AlarmProperty: { types: ['boolean'] },
+  BarometricPressureProperty: { types: ['number', 'integer'], units: ['hectopascal'] },
+  BooleanProperty: { types: ['boolean'] },
+  BrightnessProperty: { types: ['integer', 'number'], units: ['percent'] },
+  ColorModeProperty: { types: ['string'] },
+  ColorProperty: { types: ['string'] },
+  ColorTemperatureProperty: { types: ['integer', 'number'], units: ['kelvin'] },
+  ConcentrationProperty: { types: ['number', 'integer'], units: ['ppm'] },
+  CurrentProperty: { types: ['number', 'integer'], units: ['ampere'] },
+  DensityProperty: { types: ['number', 'integer'], units: ['micrograms per cubic metre'] },
+  FrequencyProperty: { types: ['number', 'integer'], units: ['hertz'] },
+  HeatingCoolingProperty: { types: ['string'] },
+  HumidityProperty: { types: ['number', 'integer'], units: ['percent'] },
+  ImageProperty: { types: ['null'] },
+  InstantaneousPowerFactorProperty: { types: ['number', 'integer'] },
+  InstantaneousPowerProperty: { types: ['number', 'integer'], units: ['watt'] },
+  LeakProperty: { types: ['boolean'] },
+  LevelProperty: { types: ['number', 'integer'] },
+  LockedProperty: { types: ['string'] },
+  MotionProperty: { types: ['boolean'] },
+  OnOffProperty: { types: ['boolean'] },
+  OpenProperty: { types: ['boolean'] },
+  PushedProperty: { types: ['boolean'] },
+  SmokeProperty: { types: ['boolean'] },
+  TargetTemperatureProperty: { types: ['number', 'integer'], units: TEMPERATURE_UNITS },
+  TemperatureProperty: { types: ['number', 'integer'], units: TEMPERATURE_UNITS },
+  ThermostatModeProperty: { types: ['string'] },
+  VideoProperty: { types: ['null'] },
+  VoltageProperty: { types: ['number', 'integer'], units: ['volt'] },
+});
+
+export const CAPABILITIES: Record<string, CapabilityDefinition> = catalogue({
+  Alarm: { requiredProperties: [['AlarmProperty']] },
+  AirQualitySensor: { requiredProperties: [['ConcentrationProperty', 'DensityProperty']] },
+  BarometricPressureSensor: { requiredProperties: [['BarometricPressureProperty']] },
+  BinarySensor: { requiredProperties: [['BooleanProperty']] },
+  Camera: { requiredProperties: [['ImageProperty']] },
+  ColorControl: { requiredProperties: [['ColorProperty', 'ColorTemperatureProperty']] },
+  ColorSensor: { requiredProperties: [['ColorProperty']] },
+  DoorSensor: { requiredProperties: [['OpenProperty']] },
+  EnergyMonitor: { requiredProperties: [['InstantaneousPowerProperty']] },
+  HumiditySensor: { requiredProperties: [['HumidityProperty']] },
+  LeakSensor: { requiredProperties: [['LeakProperty']] },
+  Light: { requiredProperties: [['OnOffProperty']] },
+  Lock: { requiredProperties: [['LockedProperty']] },
+  MotionSensor: { requiredProperties: [['MotionProperty']] },
+  MultiLevelSensor: { requiredProperties: [['LevelProperty']] },
+  MultiLevelSwitch: { requiredProperties: [['LevelProperty']] },
+  OnOffSwitch: { requiredProperties: [['OnOffProperty']] },
+  PushButton: { requiredProperties: [['PushedProperty']] },
+  SmartPlug: { requiredProperties: [['OnOffProperty']] },
+  SmokeSensor: { requiredProperties: [['SmokeProperty']] },
+  TemperatureSensor: { requiredProperties: [['TemperatureProperty']] },
+  Thermostat: {
+    requiredProperties: [
+      ['TemperatureProperty'],
+      ['TargetTemperatureProperty'],
+      ['HeatingCoolingProperty'],
+    ],
+  },
+  VideoCamera: { requiredProperties: [['VideoProperty']] },
+});
+
+export type CapabilityProblemKind =
+  | 'unknown-capability'
+  | 'unknown-property-type'
+  | 'missing-property'
+  | 'wrong-value-type'
+  | 'wrong-unit';
+
+export interface CapabilityProblem {
+  kind: CapabilityProblemKind;
+  message: string;
+  capability?: string;
+  propertyName?: string;
+}
+
+/**
+ * The parts of a property which are checked against the catalogue.
+ */
+export interface CapabilityPropertyInfo {
+  name: string;
+  '@type'?: string;
+  type: PropertyValueType;
+  unit?: string;
+}
+
+/**
+ * Check a property against the definition of its @type.
+ */
+export function checkPropertyType(property: CapabilityPropertyInfo): CapabilityProblem[] {
+  const atType = property['@type'];
+  if (!atType) {
+    return [];
+  }
+
+  const definition = PROPERTY_TYPES[atType];
+  if (!definition) {
+    return [
+      {
+        kind: 'unknown-property-type',
+        propertyName: property.name,
+        message: `Property ${property.name} has unknown @type ${atType}`,
+      },
+    ];
+  }
+
+  const problems: CapabilityProblem[] = [];
+  if (!definition.types.includes(property.type)) {
+    problems.push({
+      kind: 'wrong-value-type',
+      propertyName: property.name,
+      message:
+        `Property ${property.name} (${atType}) has type ${property.type}, ` +
+        `expected ${definition.types.join(' or ')}`,
+    });
+  }
+
+  if (definition.units && property.unit && !definition.units.includes(property.unit)) {
+    problems.push({
+      kind: 'wrong-unit',
+      propertyName: property.name,
+      message:
+        `Property ${property.name} (${atType}) has unit ${property.unit}, ` +
+        `expected ${definition.units.join(' or ')}`,
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Check a device's capabilities and properties against the catalogue.
+ *
+ * @param {string[]} capabilities - The device's @type values
+ * @param {CapabilityPropertyInfo[]} properties - The device's properties
+ * @returns every problem found. An empty list means the device is valid.
+ */
+export function checkCapabilities(
+  capabilities: string[],
+  properties: CapabilityPropertyInfo[]
+): CapabilityProblem[] {
+  const problems: CapabilityProblem[] = [];
+  const propertyTypes = new Set(properties.map((property) => property['@type']));
+
+  for (const capability of capabilities) {
+    const definition = CAPABILITIES[capability];
+    if (!definition) {
+      problems.push({
+        kind: 'unknown-capability',
+        capability,
+        message: `Unknown capability ${capability}`,
+      });
+      continue;
+    }
+
+    for (const alternatives of definition.requiredProperties) {
+      if (!alternatives.some((atType) => propertyTypes.has(atType))) {
+        problems.push({
+          kind: 'missing-property',
+          capability,
+          message: `Capability ${capability} requires a property of type ${alternatives.join(
+            ' or '
+          )}`,
+        });
+      }
+    }
+  }
+
+  for (const property of properties) {
+    problems.push(...checkPropertyType(property));
+  }
+
+  return problems;
+}
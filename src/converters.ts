@@ -0,0 +1,114 @@
+/**
+ * Converters between raw device values and Web Thing property values.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Any } from './schema';
+
+/**
+ * Converts a property value from the representation used by the device to the
+ * one used by the gateway, and back.
+ */
+export interface PropertyConverter<T extends Any = Any, R = unknown> {
+  fromDevice(raw: R): T;
+  toDevice(value: T): R;
+}
+
+export interface LinearOptions {
+  rawMin: number;
+  rawMax: number;
+  min: number;
+  max: number;
+
+  /**
+   * Round converted values to integers, in both directions.
+   */
+  round?: boolean;
+}
+
+/**
+ * Build a converter which maps a raw range onto a property range, e.g.
+ * 0-254 brightness onto 0-100 percent.
+ */
+export function linear({ rawMin, rawMax, min, max, round }: LinearOptions): PropertyConverter {
+  const maybeRound = (value: number): number => (round ? Math.round(value) : value);
+
+  return {
+    fromDevice: (raw) =>
+      maybeRound(min + ((<number>raw - rawMin) * (max - min)) / (rawMax - rawMin)),
+    toDevice: (value) =>
+      maybeRound(rawMin + ((<number>value - min) * (rawMax - rawMin)) / (max - min)),
+  };
+}
+
+/**
+ * Build a converter from color temperatures in mireds to kelvin.
+ */
+export function miredsToKelvin(): PropertyConverter {
+  return {
+    fromDevice: (raw) => Math.round(1000000 / <number>raw),
+    toDevice: (value) => Math.round(1000000 / <number>value),
+  };
+}
+
+/**
+ * Chain converters. The first one is closest to the device.
+ */
+export function compose(...converters: PropertyConverter[]): PropertyConverter {
+  return {
+    fromDevice: (raw) => <Any>converters.reduce<unknown>((value, c) => c.fromDevice(value), raw),
+    toDevice: (value) => converters.reduceRight<unknown>((raw, c) => c.toDevice(<Any>raw), value),
+  };
+}
+
+interface UnitConversion {
+  toBase: (value: number) => number;
+  fromBase: (value: number) => number;
+}
+
+// Units which can be converted into each other, grouped by quantity. Each unit
+// converts to and from the first unit of its group.
+const UNIT_GROUPS: Record<string, UnitConversion>[] = [
+  {
+    'degree celsius': { toBase: (v) => v, fromBase: (v) => v },
+    'degree fahrenheit': {
+      toBase: (v) => ((v - 32) * 5) / 9,
+      fromBase: (v) => (v * 9) / 5 + 32,
+    },
+    kelvin: { toBase: (v) => v - 273.15, fromBase: (v) => v + 273.15 },
+  },
+];
+
+function findUnitGroup(unit: string): Record<string, UnitConversion> | undefined {
+  return UNIT_GROUPS.find((group) => group.hasOwnProperty(unit));
+}
+
+/**
+ * @returns true if a value can be converted from one unit to the other.
+ */
+export function canConvertUnit(fromUnit: string, toUnit: string): boolean {
+  const group = findUnitGroup(fromUnit);
+  return !!group && group.hasOwnProperty(toUnit);
+}
+
+/**
+ * Build a converter between two units of the same quantity, e.g. degree
+ * celsius on the device and degree fahrenheit in the gateway.
+ */
+export function unitConverter(fromUnit: string, toUnit: string): PropertyConverter {
+  const group = findUnitGroup(fromUnit);
+  if (!group || !group.hasOwnProperty(toUnit)) {
+    throw new Error(`Cannot convert from "${fromUnit}" to "${toUnit}"`);
+  }
+
+  const from = group[fromUnit];
+  const to = group[toUnit];
+
+  return {
+    fromDevice: (raw) => to.fromBase(from.toBase(<number>raw)),
+    toDevice: (value) => from.fromBase(to.toBase(<number>value)),
+  };
+}
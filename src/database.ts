@@ -140,4 +140,87 @@ export class Database {
       );
     });
   }
+
+  /**
+   * Load the stored devices of one of the package's adapters.
+   *
+   * @returns Promise which resolves to the records, keyed by device ID.
+   */
+  loadDevices(adapterId: string): Promise<Record<string, Record<string, unknown>>> {
+    if (!this.conn) {
+      return Promise.reject('Database not open');
+    }
+
+    const prefix = this.deviceKey(adapterId, '');
+
+    return new Promise((resolve, reject) => {
+      this?.conn?.all(
+        'SELECT key, value FROM settings WHERE substr(key, 1, ?) = ?',
+        [prefix.length, prefix],
+        (error, rows) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+
+          const devices: Record<string, Record<string, unknown>> = {};
+          for (const row of rows) {
+            devices[row.key.slice(prefix.length)] = JSON.parse(row.value);
+          }
+          resolve(devices);
+        }
+      );
+    });
+  }
+
+  /**
+   * Store a device of one of the package's adapters.
+   */
+  saveDevice(adapterId: string, deviceId: string, record: Record<string, unknown>): Promise<void> {
+    if (!this.conn) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this?.conn?.run(
+        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+        [this.deviceKey(adapterId, deviceId), JSON.stringify(record)],
+        (error) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Remove a stored device of one of the package's adapters.
+   */
+  removeDevice(adapterId: string, deviceId: string): Promise<void> {
+    if (!this.conn) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this?.conn?.run(
+        'DELETE FROM settings WHERE key = ?',
+        [this.deviceKey(adapterId, deviceId)],
+        (error) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+  }
+
+  private deviceKey(adapterId: string, deviceId: string): string {
+    // The adapter ID is encoded, so that its separator can't appear in it.
+    return `addons.devices.${this.packageName}.${encodeURIComponent(adapterId)}/${deviceId}`;
+  }
 }
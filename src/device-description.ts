@@ -0,0 +1,91 @@
+/**
+ * Device descriptions.
+ *
+ * Validation and loading of Thing descriptions used to build devices from
+ * data, see Device.fromDescription().
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { ErrorObject } from 'ajv';
+import fs from 'fs';
+import yaml from 'js-yaml';
+import path from 'path';
+import { definitionValidators } from './message-validators';
+import { DeviceWithoutId } from './schema';
+
+/**
+ * Error raised when a device description does not match the Device schema.
+ */
+export class DeviceDescriptionError extends Error {
+  public errors: ErrorObject[];
+
+  constructor(source: string, errors: ErrorObject[]) {
+    const details = errors.map((e) => `"${e.dataPath || '/'}": ${e.message}`).join('; ');
+    super(`Invalid device description in ${source}: ${details}`);
+    this.name = 'DeviceDescriptionError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Check a description against the Device schema. The id is optional, since it
+ * is usually passed separately.
+ *
+ * @param {unknown} description - The description to check
+ * @param {string} source - Where the description came from, for errors
+ * @returns the description.
+ * @throws {DeviceDescriptionError} if the description is invalid.
+ */
+export function validateDeviceDescription(
+  description: unknown,
+  source = 'description'
+): DeviceWithoutId {
+  const validate = definitionValidators.deviceWithoutId;
+  if (!validate(description)) {
+    throw new DeviceDescriptionError(source, validate.errors ?? []);
+  }
+
+  return <DeviceWithoutId>description;
+}
+
+/**
+ * Parse a JSON or YAML device description.
+ *
+ * @param {string} text - Contents of the description
+ * @param {string} format - 'json' or 'yaml'
+ * @param {string} source - Where the description came from, for errors
+ * @returns the validated description.
+ */
+export function parseDeviceDescription(
+  text: string,
+  format: 'json' | 'yaml',
+  source = 'description'
+): DeviceWithoutId {
+  const description = format === 'yaml' ? yaml.load(text) : JSON.parse(text);
+  return validateDeviceDescription(description, source);
+}
+
+/**
+ * Load a device description from a .json, .yaml or .yml file.
+ *
+ * @param {string} fileName - Path of the file
+ * @returns a promise which resolves to the validated description.
+ */
+export function loadDeviceDescription(fileName: string): Promise<DeviceWithoutId> {
+  const ext = path.extname(fileName).toLowerCase();
+  let format: 'json' | 'yaml';
+  if (ext === '.json') {
+    format = 'json';
+  } else if (ext === '.yaml' || ext === '.yml') {
+    format = 'yaml';
+  } else {
+    return Promise.reject(new Error(`Unsupported device description file: ${fileName}`));
+  }
+
+  return fs.promises
+    .readFile(fileName, 'utf8')
+    .then((text) => parseDeviceDescription(text, format, fileName));
+}
@@ -0,0 +1,83 @@
+/**
+ * DeviceRegistry.
+ *
+ * Keeps the devices of an adapter in the add-on's database, so that they can
+ * be restored when the add-on restarts, before they have been rediscovered.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Database } from './database';
+import { DeviceWithoutId } from './schema';
+
+export interface DeviceRecord {
+  /**
+   * The device description, in the same shape as Device.asDict().
+   */
+  description: DeviceWithoutId;
+
+  /**
+   * Adapter specific data needed to reconnect to the device, e.g. its
+   * address. See Adapter.getConnectionData().
+   */
+  connection: Record<string, unknown>;
+
+  /**
+   * When the record was last written, as an ISO 8601 timestamp.
+   */
+  savedAt: string;
+}
+
+export class DeviceRegistry {
+  private database: Database;
+
+  private adapterId: string;
+
+  /**
+   * @param {Database} database - The add-on's database, already opened
+   * @param {string} adapterId - ID of the adapter whose devices are stored
+   */
+  constructor(database: Database, adapterId: string) {
+    this.database = database;
+    this.adapterId = adapterId;
+  }
+
+  getDatabase(): Database {
+    return this.database;
+  }
+
+  /**
+   * @returns a promise which resolves to the stored records, keyed by device
+   *          ID.
+   */
+  load(): Promise<Record<string, DeviceRecord>> {
+    return this.database
+      .loadDevices(this.adapterId)
+      .then((records) => <Record<string, DeviceRecord>>(<unknown>records));
+  }
+
+  /**
+   * @returns a promise which resolves to the stored record.
+   */
+  save(
+    deviceId: string,
+    description: DeviceWithoutId,
+    connection: Record<string, unknown>
+  ): Promise<DeviceRecord> {
+    const record: DeviceRecord = {
+      description,
+      connection,
+      savedAt: new Date().toISOString(),
+    };
+
+    return this.database
+      .saveDevice(this.adapterId, deviceId, <Record<string, unknown>>(<unknown>record))
+      .then(() => record);
+  }
+
+  remove(deviceId: string): Promise<void> {
+    return this.database.removeDevice(this.adapterId, deviceId);
+  }
+}
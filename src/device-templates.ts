@@ -0,0 +1,384 @@
+/**
+ * Device templates.
+ *
+ * Ready-made devices for common WebThings capabilities, with the @type values,
+ * property names and value ranges the gateway UI expects. Drivers extend a
+ * template and override writeProperty() to talk to the hardware.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Adapter } from './adapter';
+import { Device } from './device';
+import { Property } from './property';
+import { Any, Property as PropertySchema } from './schema';
+
+export interface TemplateOptions {
+  title?: string;
+}
+
+/**
+ * Property whose writes are handled by its TemplateDevice.
+ */
+export class TemplateProperty<T extends Any> extends Property<T> {
+  writeToDevice(rawValue: unknown, value: T): Promise<void> {
+    return (<TemplateDevice>this.getDevice()).writeProperty(this, rawValue, value);
+  }
+}
+
+/**
+ * Base class of the device templates.
+ */
+export class TemplateDevice extends Device {
+  constructor(adapter: Adapter, id: string, types: string[], options: TemplateOptions = {}) {
+    super(adapter, id);
+    this.setTypes(types.slice());
+    if (options.title) {
+      this.setTitle(options.title);
+    }
+  }
+
+  /**
+   * @method writeProperty
+   * @returns a promise which resolves once the value has been written.
+   *
+   * Called when the gateway sets one of the template's properties, after the
+   * value has been validated and converted. Drivers override this to write the
+   * value to the hardware; by default the write succeeds right away.
+   */
+  writeProperty(_property: Property<Any>, _rawValue: unknown, _value: Any): Promise<void> {
+    return Promise.resolve();
+  }
+
+  protected createProperty<T extends Any>(
+    name: string,
+    description: PropertySchema,
+    value: T
+  ): TemplateProperty<T> {
+    const property = new TemplateProperty<T>(this, name, description);
+    property.setCachedValue(value);
+    this.addProperty(property);
+    return property;
+  }
+}
+
+export class OnOffSwitchDevice extends TemplateDevice {
+  private onProperty: TemplateProperty<boolean>;
+
+  constructor(
+    adapter: Adapter,
+    id: string,
+    options: TemplateOptions = {},
+    types: string[] = ['OnOffSwitch']
+  ) {
+    super(adapter, id, types, options);
+    this.onProperty = this.createProperty<boolean>(
+      'on',
+      {
+        '@type': 'OnOffProperty',
+        title: 'On/Off',
+        type: 'boolean',
+      },
+      false
+    );
+  }
+
+  getOnProperty(): TemplateProperty<boolean> {
+    return this.onProperty;
+  }
+}
+
+export class DimmableLightDevice extends OnOffSwitchDevice {
+  private brightnessProperty: TemplateProperty<number>;
+
+  constructor(
+    adapter: Adapter,
+    id: string,
+    options: TemplateOptions = {},
+    types: string[] = ['OnOffSwitch', 'Light']
+  ) {
+    super(adapter, id, options, types);
+    this.brightnessProperty = this.createProperty<number>(
+      'brightness',
+      {
+        '@type': 'BrightnessProperty',
+        title: 'Brightness',
+        type: 'integer',
+        unit: 'percent',
+        minimum: 0,
+        maximum: 100,
+      },
+      100
+    );
+  }
+
+  getBrightnessProperty(): TemplateProperty<number> {
+    return this.brightnessProperty;
+  }
+}
+
+export interface ColorLightOptions extends TemplateOptions {
+  /**
+   * Also add a color temperature property, with this range in kelvin.
+   */
+  colorTemperature?: { minimum: number; maximum: number };
+}
+
+export class ColorLightDevice extends DimmableLightDevice {
+  private colorProperty: TemplateProperty<string>;
+
+  private colorTemperatureProperty?: TemplateProperty<number>;
+
+  constructor(adapter: Adapter, id: string, options: ColorLightOptions = {}) {
+    super(adapter, id, options, ['OnOffSwitch', 'Light', 'ColorControl']);
+    this.colorProperty = this.createProperty<string>(
+      'color',
+      {
+        '@type': 'ColorProperty',
+        title: 'Color',
+        type: 'string',
+        pattern: '^#[0-9a-fA-F]{6}$',
+      },
+      '#ffffff'
+    );
+
+    if (options.colorTemperature) {
+      const { minimum, maximum } = options.colorTemperature;
+      this.colorTemperatureProperty = this.createProperty<number>(
+        'colorTemperature',
+        {
+          '@type': 'ColorTemperatureProperty',
+          title: 'Color Temperature',
+          type: 'integer',
+          unit: 'kelvin',
+          minimum,
+          maximum,
+        },
+        minimum
+      );
+    }
+  }
+
+  getColorProperty(): TemplateProperty<string> {
+    return this.colorProperty;
+  }
+
+  getColorTemperatureProperty(): TemplateProperty<number> | undefined {
+    return this.colorTemperatureProperty;
+  }
+}
+
+export interface ThermostatOptions extends TemplateOptions {
+  /**
+   * Unit of the temperatures. Defaults to degree celsius.
+   */
+  unit?: 'degree celsius' | 'degree fahrenheit';
+
+  /**
+   * Range of the target temperature. Defaults to 10-32 degree celsius, or
+   * 50-90 degree fahrenheit.
+   */
+  minimum?: number;
+  maximum?: number;
+}
+
+export class ThermostatDevice extends TemplateDevice {
+  private temperatureProperty: TemplateProperty<number>;
+
+  private targetTemperatureProperty: TemplateProperty<number>;
+
+  private heatingCoolingProperty: TemplateProperty<string>;
+
+  private thermostatModeProperty: TemplateProperty<string>;
+
+  constructor(adapter: Adapter, id: string, options: ThermostatOptions = {}) {
+    super(adapter, id, ['Thermostat', 'TemperatureSensor'], options);
+    const unit = options.unit ?? 'degree celsius';
+    const celsius = unit === 'degree celsius';
+    const minimum = options.minimum ?? (celsius ? 10 : 50);
+    const maximum = options.maximum ?? (celsius ? 32 : 90);
+
+    this.temperatureProperty = this.createProperty<number>(
+      'temperature',
+      {
+        '@type': 'TemperatureProperty',
+        title: 'Temperature',
+        type: 'number',
+        unit,
+        multipleOf: 0.1,
+        readOnly: true,
+      },
+      minimum
+    );
+
+    this.targetTemperatureProperty = this.createProperty<number>(
+      'targetTemperature',
+      {
+        '@type': 'TargetTemperatureProperty',
+        title: 'Target Temperature',
+        type: 'number',
+        unit,
+        minimum,
+        maximum,
+        multipleOf: 0.5,
+      },
+      minimum
+    );
+
+    this.heatingCoolingProperty = this.createProperty<string>(
+      'heatingCooling',
+      {
+        '@type': 'HeatingCoolingProperty',
+        title: 'Heating/Cooling',
+        type: 'string',
+        enum: ['off', 'heating', 'cooling'],
+        readOnly: true,
+      },
+      'off'
+    );
+
+    this.thermostatModeProperty = this.createProperty<string>(
+      'thermostatMode',
+      {
+        '@type': 'ThermostatModeProperty',
+        title: 'Mode',
+        type: 'string',
+        enum: ['off', 'heat', 'cool', 'auto'],
+      },
+      'off'
+    );
+  }
+
+  getTemperatureProperty(): TemplateProperty<number> {
+    return this.temperatureProperty;
+  }
+
+  getTargetTemperatureProperty(): TemplateProperty<number> {
+    return this.targetTemperatureProperty;
+  }
+
+  getHeatingCoolingProperty(): TemplateProperty<string> {
+    return this.heatingCoolingProperty;
+  }
+
+  getThermostatModeProperty(): TemplateProperty<string> {
+    return this.thermostatModeProperty;
+  }
+}
+
+export class MotionSensorDevice extends TemplateDevice {
+  private motionProperty: TemplateProperty<boolean>;
+
+  constructor(adapter: Adapter, id: string, options: TemplateOptions = {}) {
+    super(adapter, id, ['MotionSensor'], options);
+    this.motionProperty = this.createProperty<boolean>(
+      'motion',
+      {
+        '@type': 'MotionProperty',
+        title: 'Motion',
+        type: 'boolean',
+        readOnly: true,
+      },
+      false
+    );
+  }
+
+  getMotionProperty(): TemplateProperty<boolean> {
+    return this.motionProperty;
+  }
+}
+
+export class DoorSensorDevice extends TemplateDevice {
+  private openProperty: TemplateProperty<boolean>;
+
+  constructor(adapter: Adapter, id: string, options: TemplateOptions = {}) {
+    super(adapter, id, ['DoorSensor'], options);
+    this.openProperty = this.createProperty<boolean>(
+      'open',
+      {
+        '@type': 'OpenProperty',
+        title: 'Open',
+        type: 'boolean',
+        readOnly: true,
+      },
+      false
+    );
+  }
+
+  getOpenProperty(): TemplateProperty<boolean> {
+    return this.openProperty;
+  }
+}
+
+export interface SmartPlugOptions extends TemplateOptions {
+  /**
+   * Add voltage and current properties next to power. Defaults to true.
+   */
+  voltageAndCurrent?: boolean;
+}
+
+export class SmartPlugDevice extends OnOffSwitchDevice {
+  private powerProperty: TemplateProperty<number>;
+
+  private voltageProperty?: TemplateProperty<number>;
+
+  private currentProperty?: TemplateProperty<number>;
+
+  constructor(adapter: Adapter, id: string, options: SmartPlugOptions = {}) {
+    super(adapter, id, options, ['OnOffSwitch', 'SmartPlug', 'EnergyMonitor']);
+    this.powerProperty = this.createProperty<number>(
+      'power',
+      {
+        '@type': 'InstantaneousPowerProperty',
+        title: 'Power',
+        type: 'number',
+        unit: 'watt',
+        multipleOf: 0.1,
+        readOnly: true,
+      },
+      0
+    );
+
+    if (options.voltageAndCurrent ?? true) {
+      this.voltageProperty = this.createProperty<number>(
+        'voltage',
+        {
+          '@type': 'VoltageProperty',
+          title: 'Voltage',
+          type: 'number',
+          unit: 'volt',
+          multipleOf: 0.1,
+          readOnly: true,
+        },
+        0
+      );
+
+      this.currentProperty = this.createProperty<number>(
+        'current',
+        {
+          '@type': 'CurrentProperty',
+          title: 'Current',
+          type: 'number',
+          unit: 'ampere',
+          multipleOf: 0.01,
+          readOnly: true,
+        },
+        0
+      );
+    }
+  }
+
+  getPowerProperty(): TemplateProperty<number> {
+    return this.powerProperty;
+  }
+
+  getVoltageProperty(): TemplateProperty<number> | undefined {
+    return this.voltageProperty;
+  }
+
+  getCurrentProperty(): TemplateProperty<number> | undefined {
+    return this.currentProperty;
+  }
+}
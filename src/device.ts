@@ -9,20 +9,80 @@
  */
 
 import { Action } from './action';
+import { createAbortController } from './abort-controller';
 import Ajv from 'ajv';
 import { Adapter } from './adapter';
 import { Property } from './property';
+import { CapabilityProblem, checkCapabilities } from './capabilities';
+import { canConvertUnit } from './converters';
+import { loadDeviceDescription, validateDeviceDescription } from './device-description';
+import { PropertyPoller } from './property-poller';
 import { Event } from './event';
 import {
   Action as ActionSchema,
   Any,
   Event as EventSchema,
   Device as DeviceSchema,
+  DeviceWithoutId,
   Property as PropertySchema,
   Link,
 } from './schema';
 
-const ajv = new Ajv();
+// Action input and output schemas may carry annotations such as unit, which
+// strict mode rejects as unknown keywords.
+const ajv = new Ajv({ strict: false });
+
+interface ActiveAction {
+  action: Action;
+  controller: AbortController;
+  settled: Promise<void>;
+}
+
+/**
+ * What to do when an action is requested while the queue is full:
+ *  - 'drop-oldest': cancel the oldest queued action to make room, or reject
+ *    the new request if the queue can't hold any
+ *  - 'reject-new': reject the new request
+ */
+export type ActionOverflowPolicy = 'drop-oldest' | 'reject-new';
+
+export interface ActionConcurrencyOptions {
+  /**
+   * Number of actions which may be performed at the same time. An action
+   * occupies a slot until its performAction() promise settles.
+   */
+  maxConcurrent: number;
+
+  /**
+   * Number of actions which may wait for a free slot. Defaults to unlimited.
+   */
+  maxQueueLength?: number;
+
+  /**
+   * Defaults to 'reject-new'.
+   */
+  overflow?: ActionOverflowPolicy;
+}
+
+/**
+ * Changes made by the user in the gateway, see Device.applyUserEdits().
+ */
+export interface DeviceEdits {
+  title?: string;
+  properties?: Record<string, { title?: string; unit?: string }>;
+}
+
+interface QueuedAction {
+  actionId: string;
+  start: () => void;
+  drop: () => void;
+}
+
+interface ActionQueue {
+  options: Required<ActionConcurrencyOptions>;
+  running: number;
+  pending: QueuedAction[];
+}
 
 export class Device {
   private adapter: Adapter;
@@ -43,6 +103,12 @@ export class Device {
 
   private actions = new Map<string, ActionSchema>();
 
+  private activeActions = new Map<string, ActiveAction>();
+
+  private actionQueue?: ActionQueue;
+
+  private actionQueues = new Map<string, ActionQueue>();
+
   private events = new Map<string, EventSchema>();
 
   private links: Link[] = [];
@@ -55,11 +121,150 @@ export class Device {
 
   private credentialsRequired = false;
 
+  private poller = new PropertyPoller();
+
+  private connected = true;
+
   constructor(adapter: Adapter, id: string) {
     this.adapter = adapter;
     this.id = `${id}`;
   }
 
+  /**
+   * Build a device from a Thing description in the same shape as asDict().
+   * When called on a subclass, an instance of that subclass is created, so
+   * its constructor has to take the same arguments as Device's.
+   *
+   * @throws {DeviceDescriptionError} if the description is invalid.
+   */
+  static fromDescription(adapter: Adapter, id: string, description: DeviceWithoutId): Device {
+    const device = new this(adapter, id);
+    device.applyDescription(description);
+    return device;
+  }
+
+  /**
+   * Build a device from a JSON or YAML file, see fromDescription().
+   *
+   * @returns a promise which resolves to the device.
+   */
+  static fromFile(adapter: Adapter, id: string, fileName: string): Promise<Device> {
+    return loadDeviceDescription(fileName).then((description) =>
+      this.fromDescription(adapter, id, description)
+    );
+  }
+
+  /**
+   * Add the types, properties, actions, events and links from a Thing
+   * description to this device. An id in the description is ignored.
+   *
+   * @throws {DeviceDescriptionError} if the description is invalid.
+   */
+  applyDescription(description: DeviceWithoutId): void {
+    validateDeviceDescription(description, `device ${this.id}`);
+
+    if (description['@context']) {
+      this['@context'] = <string>description['@context'];
+    }
+
+    for (const type of description['@type'] ?? []) {
+      this.addType(type);
+    }
+
+    if (typeof description.title !== 'undefined') {
+      this.title = description.title;
+    }
+
+    if (typeof description.description !== 'undefined') {
+      this.description = description.description;
+    }
+
+    for (const [name, propertyDescr] of Object.entries(description.properties ?? {})) {
+      const property = new Property(this, name, propertyDescr);
+      if (typeof propertyDescr.value !== 'undefined') {
+        property.setCachedValue(propertyDescr.value);
+      }
+      this.addProperty(property);
+    }
+
+    for (const [name, metadata] of Object.entries(description.actions ?? {})) {
+      this.addAction(name, Object.assign({}, metadata));
+    }
+
+    for (const [name, metadata] of Object.entries(description.events ?? {})) {
+      this.addEvent(name, Object.assign({}, metadata));
+    }
+
+    for (const link of description.links ?? []) {
+      this.addLink(link);
+    }
+
+    if (typeof description.baseHref !== 'undefined') {
+      this.baseHref = description.baseHref;
+    }
+
+    if (description.pin) {
+      this.pinRequired = description.pin.required;
+      this.pinPattern = description.pin.pattern;
+    }
+
+    if (typeof description.credentialsRequired !== 'undefined') {
+      this.credentialsRequired = description.credentialsRequired;
+    }
+  }
+
+  /**
+   * Merge the edits a user made in the gateway into this device: the title,
+   * and property titles and units. Units are converted where possible, so
+   * that values keep their meaning. The @type list is left alone, as it is
+   * the adapter's; the user's pick among it is kept by the gateway.
+   *
+   * @param {object} saved - The device description saved by the gateway
+   * @returns the changes which were applied.
+   */
+  applyUserEdits(saved: DeviceWithoutId): DeviceEdits {
+    const edits: DeviceEdits = {};
+
+    if (saved.title && saved.title !== this.getTitle()) {
+      this.title = saved.title;
+      edits.title = saved.title;
+    }
+
+    for (const [name, savedProperty] of Object.entries(saved.properties ?? {})) {
+      const property = this.findProperty(name);
+      if (!property) {
+        continue;
+      }
+
+      const propertyEdits: { title?: string; unit?: string } = {};
+      if (savedProperty.title && savedProperty.title !== property.getTitle()) {
+        property.setTitle(savedProperty.title);
+        propertyEdits.title = savedProperty.title;
+      }
+
+      const unit = savedProperty.unit;
+      const currentUnit = property.getUnit();
+      if (unit && unit !== currentUnit) {
+        if (property.canConvertTo(unit)) {
+          property.convertUnit(unit);
+          propertyEdits.unit = unit;
+        } else if (!currentUnit || !canConvertUnit(currentUnit, unit)) {
+          property.setUnit(unit);
+          propertyEdits.unit = unit;
+        }
+        // Otherwise the unit is of the same quantity, but doesn't apply to
+        // this property, e.g. degree celsius for a color temperature.
+      }
+
+      if (Object.keys(propertyEdits).length > 0) {
+        edits.properties = edits.properties ?? {};
+        edits.properties[name] = propertyEdits;
+      }
+    }
+
+    return edits;
+  }
+
   getId(): string {
     return this.id;
   }
@@ -81,11 +286,33 @@ export class Device {
   }
 
   addType(type: string): void {
-    if (!(type in this['@type'])) {
+    if (!this['@type'].includes(type)) {
       this['@type'].push(type);
     }
   }
 
+  /**
+   * Check the device's @type values and its properties against the catalogue
+   * of WebThings capabilities.
+   *
+   * @returns the problems found: unknown capabilities or property types,
+   *          missing required properties, and properties with the wrong value
+   *          type or unit. An empty list means the device is valid.
+   */
+  validateCapabilities(): CapabilityProblem[] {
+    const properties = Array.from(this.properties.values()).map((property) => {
+      const description = property.asPropertyDescription();
+      return {
+        name: property.getName(),
+        '@type': description['@type'],
+        type: description.type,
+        unit: description.unit,
+      };
+    });
+
+    return checkCapabilities(this['@type'], properties);
+  }
+
   getTitle(): string {
     if (this.name && !this.title) {
       this.title = this.name;
@@ -223,6 +450,7 @@ export class Device {
 
   addProperty(property: Property<Any>): void {
     this.properties.set(property.getName(), property);
+    this.updatePolling(property);
   }
 
   /**
@@ -233,9 +461,7 @@ export class Device {
     return new Promise((resolve, reject) => {
       const property = this.findProperty(propertyName);
       if (property) {
-        property.getValue().then((value) => {
-          resolve(value);
-        });
+        property.getValue().then(resolve, reject);
       } else {
         reject(`Property "${propertyName}" not found`);
       }
@@ -246,11 +472,47 @@ export class Device {
     return this.properties.has(propertyName);
   }
 
+  /**
+   * Start polling the properties which have polling options. Called by
+   * Adapter.handleDeviceAdded().
+   */
+  startPolling(): void {
+    this.poller.start(Array.from(this.properties.values()));
+  }
+
+  /**
+   * Stop polling. Called by Adapter.handleDeviceRemoved().
+   */
+  stopPolling(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Pick up changed polling options of a property.
+   */
+  updatePolling(property: Property<Any>): void {
+    if (this.properties.get(property.getName()) === property) {
+      this.poller.update(property);
+    }
+  }
+
+  /**
+   * Stop pending and periodic property notifications, e.g. once the device
+   * has been removed.
+   */
+  stopNotifications(): void {
+    this.properties.forEach((property) => property.stopNotifications());
+  }
+
   notifyPropertyChanged(property: Property<Any>): void {
     this.adapter.getManager().sendPropertyChangedNotification(property);
   }
 
   actionNotify(action: Action): void {
+    if (action.isFinished()) {
+      this.activeActions.delete(action.getId());
+    }
+
     this.adapter.getManager().sendActionStatusNotification(action);
   }
 
@@ -258,7 +520,21 @@ export class Device {
     this.adapter.getManager().sendEventNotification(event);
   }
 
+  /**
+   * @returns the connection state last reported with connectedNotify().
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
   connectedNotify(connected: boolean): void {
+    this.connected = connected;
+    if (connected) {
+      this.poller.resume();
+    } else {
+      this.poller.pause();
+    }
+
     this.adapter.getManager().sendConnectedNotification(this, connected);
   }
 
@@ -301,38 +577,210 @@ export class Device {
           const valid = ajv.validate(<any>metadata.input, input);
           if (!valid) {
             reject(`Action "${actionName}": input "${input}" is invalid`);
+            return;
           }
         }
       } else {
         reject(`Action "${actionName}" not found`);
+        return;
       }
 
       const action = new Action(actionId, this, actionName, input);
-      this.performAction(action).catch((err) => console.log(err));
+      const controller = createAbortController();
+      const queue = this.actionQueues.get(actionName) ?? this.actionQueue;
+
+      if (!queue || queue.running < queue.options.maxConcurrent) {
+        const settled = this.runAction(action, controller, queue);
+        this.activeActions.set(actionId, { action, controller, settled });
+
+        resolve();
+        return;
+      }
+
+      if (queue.pending.length >= queue.options.maxQueueLength) {
+        if (queue.options.overflow === 'reject-new' || queue.pending.length === 0) {
+          reject(`Action "${actionName}": queue is full`);
+          return;
+        }
+
+        queue.pending.shift()!.drop();
+      }
+
+      // The action stays in the 'created' state until a slot is free.
+      let settle: () => void;
+      const settled = new Promise<void>((resolve) => {
+        settle = resolve;
+      });
+
+      queue.pending.push({
+        actionId,
+        start: () => this.runAction(action, controller, queue).then(() => settle()),
+        drop: () => {
+          action.cancel();
+          settle();
+        },
+      });
+      this.activeActions.set(actionId, { action, controller, settled });
       resolve();
     });
   }
 
+  /**
+   * Call performAction, and hand the slot to the next queued action once it
+   * settles.
+   */
+  private runAction(
+    action: Action,
+    controller: AbortController,
+    queue?: ActionQueue
+  ): Promise<void> {
+    if (queue) {
+      queue.running++;
+    }
+
+    return Promise.resolve()
+      .then(() => this.performAction(action, controller.signal))
+      .catch((err) => {
+        if (controller.signal.aborted) {
+          action.cancel();
+        } else {
+          console.log(err);
+          action.fail(err);
+        }
+      })
+      .then(() => {
+        if (queue) {
+          queue.running--;
+          this.startQueuedActions(queue);
+        }
+      });
+  }
+
+  private startQueuedActions(queue: ActionQueue): void {
+    while (queue.running < queue.options.maxConcurrent && queue.pending.length > 0) {
+      queue.pending.shift()!.start();
+    }
+  }
+
+  /**
+   * @method setActionConcurrency
+   *
+   * Limit how many actions are performed at the same time. Further requests
+   * are queued in FIFO order. This is meant to be called while setting up the
+   * device, before any action has been requested.
+   *
+   * @param {Object} options Concurrency options
+   * @param {String} actionName Optional action to apply the limit to. Without
+   *                            it, the limit applies to all actions of the
+   *                            device which don't have their own.
+   */
+  setActionConcurrency(options: ActionConcurrencyOptions, actionName?: string): void {
+    const queue: ActionQueue = {
+      options: {
+        maxConcurrent: options.maxConcurrent,
+        maxQueueLength: options.maxQueueLength ?? Infinity,
+        overflow: options.overflow ?? 'reject-new',
+      },
+      running: 0,
+      pending: [],
+    };
+
+    if (typeof actionName === 'string') {
+      this.actionQueues.set(actionName, queue);
+    } else {
+      this.actionQueue = queue;
+    }
+  }
+
+  /**
+   * @method validateActionOutput
+   * @returns null if the output matches the output schema declared for the
+   *          action, if any, otherwise a description of the problem.
+   */
+  validateActionOutput(actionName: string, output: Any): string | null {
+    const metadata = this.actions.get(actionName);
+    if (!metadata || !metadata.hasOwnProperty('output')) {
+      return null;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const valid = ajv.validate(<any>metadata.output, output);
+    if (!valid) {
+      return `Action "${actionName}": output is invalid: ${ajv.errorsText()}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * @method getAction
+   * @returns the in-flight action with the given ID, if any.
+   */
+  getAction(actionId: string): Action | undefined {
+    return this.activeActions.get(actionId)?.action;
+  }
+
+  /**
+   * @method getActions
+   * @returns the actions which are queued or being performed, keyed by
+   *          action ID.
+   */
+  getActions(): Record<string, Action> {
+    const actions: Record<string, Action> = {};
+    this.activeActions.forEach(({ action }, actionId) => {
+      actions[actionId] = action;
+    });
+    return actions;
+  }
+
   /**
    * @method removeAction
+   *
+   * Aborts the signal passed to performAction, and waits for the action to
+   * settle.
+   *
    * @returns a promise which resolves when the action has been removed.
    */
   removeAction(actionId: string, actionName: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.actions.has(actionName)) {
-        reject(`Action "${actionName}" not found`);
+    if (!this.actions.has(actionName)) {
+      return Promise.reject(`Action "${actionName}" not found`);
+    }
+
+    const active = this.activeActions.get(actionId);
+    active?.controller.abort();
+    this.dropQueuedAction(actionId);
+
+    return this.cancelAction(actionId, actionName)
+      .catch((err) => console.log(err))
+      .then(() => active?.settled)
+      .then(() => {
+        active?.action.cancel();
+        this.activeActions.delete(actionId);
+      });
+  }
+
+  private dropQueuedAction(actionId: string): void {
+    const queues = Array.from(this.actionQueues.values());
+    if (this.actionQueue) {
+      queues.push(this.actionQueue);
+    }
+
+    for (const queue of queues) {
+      const index = queue.pending.findIndex((queued) => queued.actionId === actionId);
+      if (index >= 0) {
+        queue.pending.splice(index, 1)[0].drop();
         return;
       }
-
-      this.cancelAction(actionId, actionName).catch((err) => console.log(err));
-      resolve();
-    });
+    }
   }
 
   /**
    * @method performAction
+   *
+   * @param {Action} action The action to perform
+   * @param {AbortSignal} signal Aborted when the action is removed
    */
-  performAction(_action: Action): Promise<void> {
+  performAction(_action: Action, _signal?: AbortSignal): Promise<void> {
     return Promise.resolve();
   }
 
@@ -0,0 +1,256 @@
+/**
+ * MdnsProvider.
+ *
+ * Discovery of DNS-SD services with one-shot mDNS queries (RFC 6762, 6763).
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import dgram from 'dgram';
+import { CandidateCallback, DiscoveryCandidate, DiscoveryProvider, udpScan } from './discovery';
+
+const MDNS_ADDRESS = '224.0.0.251';
+
+const MDNS_PORT = 5353;
+
+export const DNS_TYPE_A = 1;
+export const DNS_TYPE_PTR = 12;
+export const DNS_TYPE_TXT = 16;
+export const DNS_TYPE_AAAA = 28;
+export const DNS_TYPE_SRV = 33;
+
+const DNS_CLASS_IN = 1;
+
+// Asks responders to answer by unicast, directly to the querying port.
+const DNS_CLASS_UNICAST_RESPONSE = 0x8000;
+
+export interface MdnsOptions {
+  /**
+   * Service type to browse for, e.g. '_http._tcp.local'.
+   */
+  serviceType: string;
+
+  /**
+   * How long to wait for answers, in milliseconds. Defaults to 3000.
+   */
+  timeout?: number;
+
+  /**
+   * Where to send the query. Defaults to the mDNS multicast group; a local
+   * responder can be used instead for testing.
+   */
+  address?: string;
+  port?: number;
+}
+
+/**
+ * A resource record from a DNS message. data depends on the type: the target
+ * name for PTR, { priority, weight, port, target } for SRV, the strings for
+ * TXT and the address for A and AAAA.
+ */
+export interface DnsRecord {
+  name: string;
+  type: number;
+  ttl: number;
+  data: unknown;
+}
+
+export interface SrvData {
+  priority: number;
+  weight: number;
+  port: number;
+  target: string;
+}
+
+/**
+ * Encode a DNS query with a single question.
+ */
+export function encodeDnsQuery(name: string, type: number): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(1, 4);
+
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(type, 0);
+  question.writeUInt16BE(DNS_CLASS_IN | DNS_CLASS_UNICAST_RESPONSE, 2);
+
+  return Buffer.concat([header, encodeDnsName(name), question]);
+}
+
+export function encodeDnsName(name: string): Buffer {
+  const parts = name
+    .split('.')
+    .filter((label) => label.length > 0)
+    .map((label) => {
+      const bytes = Buffer.from(label);
+      return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    });
+
+  return Buffer.concat([...parts, Buffer.from([0])]);
+}
+
+function readDnsName(buf: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let next = -1;
+  let jumps = 0;
+
+  for (;;) {
+    const len = buf.readUInt8(offset);
+    if (len === 0) {
+      offset += 1;
+      break;
+    }
+
+    if ((len & 0xc0) === 0xc0) {
+      // Compression pointer. Guard against loops in malformed messages.
+      if (++jumps > 32) {
+        throw new Error('Too many compression pointers in DNS name');
+      }
+
+      if (next < 0) {
+        next = offset + 2;
+      }
+
+      offset = buf.readUInt16BE(offset) & 0x3fff;
+      continue;
+    }
+
+    labels.push(buf.toString('utf8', offset + 1, offset + 1 + len));
+    offset += 1 + len;
+  }
+
+  return { name: labels.join('.'), next: next < 0 ? offset : next };
+}
+
+function readRecordData(buf: Buffer, type: number, offset: number, length: number): unknown {
+  switch (type) {
+    case DNS_TYPE_PTR:
+      return readDnsName(buf, offset).name;
+    case DNS_TYPE_SRV:
+      return {
+        priority: buf.readUInt16BE(offset),
+        weight: buf.readUInt16BE(offset + 2),
+        port: buf.readUInt16BE(offset + 4),
+        target: readDnsName(buf, offset + 6).name,
+      };
+    case DNS_TYPE_TXT: {
+      const strings: string[] = [];
+      let pos = offset;
+      while (pos < offset + length) {
+        const len = buf.readUInt8(pos);
+        strings.push(buf.toString('utf8', pos + 1, pos + 1 + len));
+        pos += 1 + len;
+      }
+      return strings;
+    }
+    case DNS_TYPE_A:
+      return Array.from(buf.subarray(offset, offset + 4)).join('.');
+    case DNS_TYPE_AAAA: {
+      const groups: string[] = [];
+      for (let i = 0; i < 16; i += 2) {
+        groups.push(buf.readUInt16BE(offset + i).toString(16));
+      }
+      return groups.join(':');
+    }
+    default:
+      return buf.subarray(offset, offset + length);
+  }
+}
+
+/**
+ * Decode the answer, authority and additional records of a DNS message.
+ */
+export function decodeDnsRecords(buf: Buffer): DnsRecord[] {
+  const questions = buf.readUInt16BE(4);
+  const count = buf.readUInt16BE(6) + buf.readUInt16BE(8) + buf.readUInt16BE(10);
+  let offset = 12;
+
+  for (let i = 0; i < questions; i++) {
+    offset = readDnsName(buf, offset).next + 4;
+  }
+
+  const records: DnsRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    const { name, next } = readDnsName(buf, offset);
+    const type = buf.readUInt16BE(next);
+    const ttl = buf.readUInt32BE(next + 4);
+    const length = buf.readUInt16BE(next + 8);
+    const dataOffset = next + 10;
+
+    records.push({ name, type, ttl, data: readRecordData(buf, type, dataOffset, length) });
+    offset = dataOffset + length;
+  }
+
+  return records;
+}
+
+function parseTxt(strings: string[]): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const entry of strings) {
+    const idx = entry.indexOf('=');
+    if (idx < 0) {
+      attributes[entry] = '';
+    } else if (idx > 0) {
+      attributes[entry.slice(0, idx)] = entry.slice(idx + 1);
+    }
+  }
+  return attributes;
+}
+
+export class MdnsProvider implements DiscoveryProvider {
+  private options: MdnsOptions;
+
+  constructor(options: MdnsOptions) {
+    this.options = options;
+  }
+
+  getName(): string {
+    return 'mdns';
+  }
+
+  discover(signal: AbortSignal, onCandidate: CandidateCallback): Promise<void> {
+    const scanOptions = {
+      address: this.options.address ?? MDNS_ADDRESS,
+      port: this.options.port ?? MDNS_PORT,
+      message: encodeDnsQuery(this.options.serviceType, DNS_TYPE_PTR),
+      timeout: this.options.timeout ?? 3000,
+    };
+
+    return udpScan(scanOptions, signal, (msg, rinfo) => {
+      for (const candidate of this.toCandidates(decodeDnsRecords(msg), rinfo)) {
+        onCandidate(candidate);
+      }
+    });
+  }
+
+  private toCandidates(records: DnsRecord[], rinfo: dgram.RemoteInfo): DiscoveryCandidate[] {
+    const serviceType = this.options.serviceType.replace(/\.$/, '').toLowerCase();
+    const find = (name: string, type: number): DnsRecord | undefined =>
+      records.find((r) => r.type === type && r.name.toLowerCase() === name.toLowerCase());
+
+    const candidates: DiscoveryCandidate[] = [];
+    for (const ptr of records) {
+      if (ptr.type !== DNS_TYPE_PTR || ptr.name.toLowerCase() !== serviceType) {
+        continue;
+      }
+
+      const instance = <string>ptr.data;
+      const srv = <SrvData | undefined>find(instance, DNS_TYPE_SRV)?.data;
+      const txt = <string[] | undefined>find(instance, DNS_TYPE_TXT)?.data;
+      const a = srv && find(srv.target, DNS_TYPE_A);
+
+      candidates.push({
+        provider: this.getName(),
+        id: instance,
+        address: a ? <string>a.data : rinfo.address,
+        port: srv?.port,
+        name: instance.slice(0, instance.length - serviceType.length).replace(/\.$/, ''),
+        type: serviceType,
+        attributes: txt ? parseTxt(txt) : {},
+      });
+    }
+
+    return candidates;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * SsdpProvider.
+ *
+ * Discovery of UPnP devices with SSDP M-SEARCH requests.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import dgram from 'dgram';
+import { CandidateCallback, DiscoveryCandidate, DiscoveryProvider, udpScan } from './discovery';
+
+const SSDP_ADDRESS = '239.255.255.250';
+
+const SSDP_PORT = 1900;
+
+export interface SsdpOptions {
+  /**
+   * ST value to search for. Defaults to 'ssdp:all'.
+   */
+  searchTarget?: string;
+
+  /**
+   * Maximum delay devices may wait before answering, in seconds. Defaults
+   * to 2.
+   */
+  mx?: number;
+
+  /**
+   * How long to wait for answers, in milliseconds. Defaults to one second
+   * more than mx.
+   */
+  timeout?: number;
+
+  /**
+   * Where to send the search. Defaults to the SSDP multicast group; a local
+   * responder can be used instead for testing.
+   */
+  address?: string;
+  port?: number;
+}
+
+/**
+ * Parse the headers of an SSDP message. Header names are lower-cased.
+ *
+ * @returns the headers, or null if the message is not a search response.
+ */
+export function parseSsdpResponse(msg: string): Record<string, string> | null {
+  const lines = msg.split(/\r?\n/);
+  if (!/^HTTP\/1\.1 200/i.test(lines[0])) {
+    return null;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const line of lines.slice(1)) {
+    const idx = line.indexOf(':');
+    if (idx > 0) {
+      headers[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim();
+    }
+  }
+
+  return headers;
+}
+
+export class SsdpProvider implements DiscoveryProvider {
+  private options: SsdpOptions;
+
+  constructor(options: SsdpOptions = {}) {
+    this.options = options;
+  }
+
+  getName(): string {
+    return 'ssdp';
+  }
+
+  discover(signal: AbortSignal, onCandidate: CandidateCallback): Promise<void> {
+    const address = this.options.address ?? SSDP_ADDRESS;
+    const port = this.options.port ?? SSDP_PORT;
+    const searchTarget = this.options.searchTarget ?? 'ssdp:all';
+    const mx = this.options.mx ?? 2;
+
+    const message = [
+      'M-SEARCH * HTTP/1.1',
+      `HOST: ${SSDP_ADDRESS}:${SSDP_PORT}`,
+      'MAN: "ssdp:discover"',
+      `MX: ${mx}`,
+      `ST: ${searchTarget}`,
+      '',
+      '',
+    ].join('\r\n');
+
+    const scanOptions = {
+      address,
+      port,
+      message: Buffer.from(message),
+      timeout: this.options.timeout ?? (mx + 1) * 1000,
+    };
+
+    return udpScan(scanOptions, signal, (msg, rinfo) => {
+      const candidate = this.toCandidate(msg, rinfo);
+      if (candidate) {
+        onCandidate(candidate);
+      }
+    });
+  }
+
+  private toCandidate(msg: Buffer, rinfo: dgram.RemoteInfo): DiscoveryCandidate | null {
+    const headers = parseSsdpResponse(msg.toString());
+    if (!headers) {
+      return null;
+    }
+
+    const location = headers.location;
+    let port: number | undefined;
+    if (location) {
+      try {
+        const url = new URL(location);
+        port = url.port ? parseInt(url.port) : url.protocol === 'https:' ? 443 : 80;
+      } catch (e) {
+        // Keep the candidate, just without a port.
+      }
+    }
+
+    return {
+      provider: this.getName(),
+      id: headers.usn || location || rinfo.address,
+      address: rinfo.address,
+      port,
+      name: headers.server,
+      type: headers.st,
+      location,
+      attributes: headers,
+    };
+  }
+}
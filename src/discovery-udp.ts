@@ -0,0 +1,89 @@
+/**
+ * UdpBroadcastProvider.
+ *
+ * Generic discovery by sending a probe to a broadcast address and collecting
+ * the answers, for devices with a proprietary LAN protocol.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import dgram from 'dgram';
+import { CandidateCallback, DiscoveryCandidate, DiscoveryProvider, udpScan } from './discovery';
+
+export interface UdpBroadcastOptions {
+  /**
+   * Port the devices listen on.
+   */
+  port: number;
+
+  /**
+   * Probe to send.
+   */
+  message: Buffer | string;
+
+  /**
+   * Defaults to 255.255.255.255.
+   */
+  address?: string;
+
+  /**
+   * How long to wait for answers, in milliseconds. Defaults to 5000.
+   */
+  timeout?: number;
+
+  /**
+   * Provider name used in candidates. Defaults to 'udp'.
+   */
+  name?: string;
+
+  /**
+   * Turn an answer into candidate fields, or return null to ignore it. By
+   * default, every answer is a candidate identified by its address and port.
+   */
+  parse?: (msg: Buffer, rinfo: dgram.RemoteInfo) => Partial<DiscoveryCandidate> | null;
+}
+
+export class UdpBroadcastProvider implements DiscoveryProvider {
+  private options: UdpBroadcastOptions;
+
+  constructor(options: UdpBroadcastOptions) {
+    this.options = options;
+  }
+
+  getName(): string {
+    return this.options.name ?? 'udp';
+  }
+
+  discover(signal: AbortSignal, onCandidate: CandidateCallback): Promise<void> {
+    const { port, message, address, timeout, parse } = this.options;
+    const scanOptions = {
+      address: address ?? '255.255.255.255',
+      port,
+      message: Buffer.isBuffer(message) ? message : Buffer.from(message),
+      timeout: timeout ?? 5000,
+      broadcast: true,
+    };
+
+    return udpScan(scanOptions, signal, (msg, rinfo) => {
+      const fields = parse ? parse(msg, rinfo) : {};
+      if (!fields) {
+        return;
+      }
+
+      onCandidate(
+        Object.assign(
+          {
+            provider: this.getName(),
+            id: `${rinfo.address}:${rinfo.port}`,
+            address: rinfo.address,
+            port: rinfo.port,
+            attributes: {},
+          },
+          fields
+        )
+      );
+    });
+  }
+}
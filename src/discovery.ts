@@ -0,0 +1,198 @@
+/**
+ * Discovery.
+ *
+ * Framework for finding devices on the local network. Providers implement one
+ * protocol each and report normalized candidates, which adapters turn into
+ * devices, see Adapter.getDiscoveryProviders().
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import dgram from 'dgram';
+
+/**
+ * A device found by a discovery provider.
+ */
+export interface DiscoveryCandidate {
+  /**
+   * Name of the provider which found the candidate, e.g. 'mdns'.
+   */
+  provider: string;
+
+  /**
+   * Identifier which is stable across scans, e.g. the mDNS instance name or
+   * the SSDP USN.
+   */
+  id: string;
+
+  address: string;
+
+  port?: number;
+
+  /**
+   * Human readable name, if the protocol has one.
+   */
+  name?: string;
+
+  /**
+   * Service or device type, e.g. '_http._tcp.local' or an SSDP ST value.
+   */
+  type?: string;
+
+  /**
+   * URL of a description document, e.g. the SSDP LOCATION header.
+   */
+  location?: string;
+
+  /**
+   * Protocol specific key/value data, e.g. mDNS TXT records or SSDP headers.
+   */
+  attributes: Record<string, string>;
+}
+
+export type CandidateCallback = (candidate: DiscoveryCandidate) => void;
+
+export interface DiscoveryProvider {
+  /**
+   * Short name of the provider, used in candidates and logs.
+   */
+  getName(): string;
+
+  /**
+   * Scan for candidates.
+   *
+   * @param {AbortSignal} signal - Stops the scan early
+   * @param {function} onCandidate - Called for every candidate found
+   * @returns a promise which resolves when the scan has finished.
+   */
+  discover(signal: AbortSignal, onCandidate: CandidateCallback): Promise<void>;
+}
+
+/**
+ * Run several providers side by side. Each candidate is reported once, even if
+ * it answers several times. A provider which fails is logged and does not stop
+ * the others.
+ *
+ * @returns a promise which resolves when every provider has finished.
+ */
+export function runDiscovery(
+  providers: DiscoveryProvider[],
+  signal: AbortSignal,
+  onCandidate: CandidateCallback
+): Promise<void> {
+  const seen = new Set<string>();
+  const report = (candidate: DiscoveryCandidate): void => {
+    const key = `${candidate.provider}:${candidate.id}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      onCandidate(candidate);
+    }
+  };
+
+  return Promise.all(
+    providers.map((provider) =>
+      provider.discover(signal, report).catch((e) => {
+        console.error('Discovery:', provider.getName(), 'failed:', e);
+      })
+    )
+  ).then(() => {
+    // pass
+  });
+}
+
+export interface UdpScanOptions {
+  /**
+   * Where to send the probe.
+   */
+  address: string;
+  port: number;
+
+  message: Buffer;
+
+  /**
+   * How long to wait for answers, in milliseconds.
+   */
+  timeout: number;
+
+  /**
+   * Set SO_BROADCAST, needed for sending to broadcast addresses.
+   */
+  broadcast?: boolean;
+
+  /**
+   * Local address to bind to, e.g. to pick the network interface.
+   */
+  bindAddress?: string;
+}
+
+/**
+ * Send a probe from an ephemeral port and collect the unicast answers, until
+ * the timeout runs out or the signal is aborted.
+ *
+ * @returns a promise which resolves when the scan has finished.
+ */
+export function udpScan(
+  options: UdpScanOptions,
+  signal: AbortSignal,
+  onMessage: (msg: Buffer, rinfo: dgram.RemoteInfo) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    let timer: NodeJS.Timeout | null = null;
+    let finished = false;
+
+    const finish = (err?: Error): void => {
+      if (finished) {
+        return;
+      }
+
+      finished = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+
+      signal.removeEventListener('abort', onAbort);
+      socket.close();
+
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    };
+
+    const onAbort = (): void => finish();
+    signal.addEventListener('abort', onAbort);
+
+    socket.on('error', (err) => finish(err));
+    socket.on('message', (msg, rinfo) => {
+      try {
+        onMessage(msg, rinfo);
+      } catch (e) {
+        console.error('Discovery: Failed to parse answer from', rinfo.address, e);
+      }
+    });
+
+    socket.bind(0, options.bindAddress, () => {
+      if (options.broadcast) {
+        socket.setBroadcast(true);
+      }
+
+      socket.send(options.message, options.port, options.address, (err) => {
+        if (err) {
+          finish(err);
+          return;
+        }
+
+        timer = setTimeout(() => finish(), options.timeout);
+      });
+    });
+  });
+}
@@ -0,0 +1,355 @@
+/**
+ * @module FakeGateway
+ *
+ * Plays the gateway's side of the IPC protocol, so that adapters, notifiers
+ * and API handlers can be exercised end to end together with PluginClient and
+ * AddonManagerProxy, without running a real gateway.
+ */
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { EventEmitter } from 'events';
+import { IpcSocket } from './ipc';
+import { MessageType } from './message-type';
+import WebSocket from 'ws';
+import {
+  AdapterCancelPairingCommandMessageData,
+  AdapterCancelRemoveDeviceCommandMessageData,
+  AdapterRemoveDeviceRequestMessageData,
+  AdapterStartPairingCommandMessageData,
+  AdapterUnloadRequestMessageData,
+  APIHandlerAPIRequestMessageData,
+  APIHandlerUnloadRequestMessageData,
+  DeviceRemoveActionRequestMessageData,
+  DeviceRequestActionRequestMessageData,
+  DeviceSavedNotificationMessageData,
+  DeviceSetCredentialsRequestMessageData,
+  DeviceSetPINRequestMessageData,
+  DeviceSetPropertyCommandMessageData,
+  Message,
+  NotifierUnloadRequestMessageData,
+  OutletNotifyRequestMessageData,
+  Preferences,
+  UserProfile,
+} from './schema';
+
+/**
+ * Message data as passed to the FakeGateway API. The pluginId is filled in
+ * from the registration request.
+ */
+export type FakeGatewayMessageData<T> = Omit<T, 'pluginId'>;
+
+/**
+ * Same as FakeGatewayMessageData, but the messageId may be omitted, in which
+ * case a unique one is generated.
+ */
+export type FakeGatewayRequestData<T> = Omit<T, 'pluginId' | 'messageId'> & {
+  messageId?: number;
+};
+
+export interface FakeGatewayOptions {
+  gatewayVersion?: string;
+  userProfile?: UserProfile;
+  preferences?: Preferences;
+  verbose?: boolean;
+}
+
+interface NotificationWaiter {
+  messageType: number;
+  predicate: (msg: Message) => boolean;
+  resolve: (msg: Message) => void;
+}
+
+export const DEFAULT_USER_PROFILE: UserProfile = {
+  addonsDir: '/tmp/webthings/addons',
+  baseDir: '/tmp/webthings',
+  configDir: '/tmp/webthings/config',
+  dataDir: '/tmp/webthings/data',
+  mediaDir: '/tmp/webthings/media',
+  logDir: '/tmp/webthings/log',
+  gatewayDir: '/tmp/webthings/gateway',
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  language: 'en-US',
+  units: {
+    temperature: 'degree celsius',
+  },
+};
+
+/**
+ * In-process stand-in for the gateway's plugin server.
+ * @class FakeGateway
+ */
+export class FakeGateway extends EventEmitter {
+  private port: number;
+
+  private gatewayVersion: string;
+
+  private userProfile: UserProfile;
+
+  private preferences: Preferences;
+
+  private verbose: boolean;
+
+  private ipcSocket?: IpcSocket | null;
+
+  private ws?: WebSocket | null;
+
+  private pluginId?: string;
+
+  private notifications: Message[] = [];
+
+  private waiters: NotificationWaiter[] = [];
+
+  private nextMessageId = 0;
+
+  /**
+   * @param {number} port - Port to listen on. 0 picks a free port.
+   * @param {object} options - Values returned in PLUGIN_REGISTER_RESPONSE
+   */
+  constructor(port = 0, options: FakeGatewayOptions = {}) {
+    super();
+    this.port = port;
+    this.gatewayVersion = options.gatewayVersion ?? '1.0.0';
+    this.userProfile = options.userProfile ?? DEFAULT_USER_PROFILE;
+    this.preferences = options.preferences ?? DEFAULT_PREFERENCES;
+    this.verbose = !!options.verbose;
+  }
+
+  /**
+   * Start listening for plugin connections.
+   *
+   * @returns a promise which resolves to the port being listened on.
+   */
+  start(): Promise<number> {
+    // Record everything the plugin sends, including invalid messages.
+    this.ipcSocket = new IpcSocket(true, this.port, this.onMsg.bind(this), 'FakeGateway:', {
+      verbose: this.verbose,
+      invalidMessagePolicy: 'dispatch',
+    });
+
+    return this.ipcSocket.getListeningPromise()!.then((port) => {
+      this.port = port;
+      return port;
+    });
+  }
+
+  /**
+   * Stop listening and drop the plugin connection.
+   */
+  stop(): void {
+    this.ws?.close();
+    this.ws = null;
+    this.ipcSocket?.close();
+    this.ipcSocket = null;
+  }
+
+  getPort(): number {
+    return this.port;
+  }
+
+  /**
+   * @returns the ID of the registered plugin, if any.
+   */
+  getPluginId(): string | undefined {
+    return this.pluginId;
+  }
+
+  /**
+   * @returns true if a plugin has registered.
+   */
+  isRegistered(): boolean {
+    return !!this.ws;
+  }
+
+  /**
+   * @param {number} messageType - Optional message type to filter by
+   * @returns every message received from the plugin, in order.
+   */
+  getNotifications(messageType?: number): Message[] {
+    if (typeof messageType === 'undefined') {
+      return this.notifications.slice();
+    }
+
+    return this.notifications.filter((msg) => msg.messageType === messageType);
+  }
+
+  clearNotifications(): void {
+    this.notifications = [];
+  }
+
+  /**
+   * Wait for a message from the plugin. Messages which have already been
+   * recorded are matched first.
+   *
+   * @param {number} messageType - Message type to wait for
+   * @param {function} predicate - Optional filter on the message
+   * @param {number} timeoutMs - How long to wait before rejecting
+   * @returns a promise which resolves to the matching message.
+   */
+  waitForNotification(
+    messageType: number,
+    predicate: (msg: Message) => boolean = () => true,
+    timeoutMs = 5000
+  ): Promise<Message> {
+    const existing = this.notifications.find(
+      (msg) => msg.messageType === messageType && predicate(msg)
+    );
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: NotificationWaiter = {
+        messageType,
+        predicate,
+        resolve: (msg: Message) => {
+          clearTimeout(timer);
+          resolve(msg);
+        },
+      };
+
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(new Error(`Timed out waiting for messageType ${messageType}`));
+      }, timeoutMs);
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Wait until a plugin has connected and registered.
+   *
+   * @returns a promise which resolves to the plugin ID.
+   */
+  waitForRegistration(timeoutMs = 5000): Promise<string> {
+    return this.waitForNotification(
+      MessageType.PLUGIN_REGISTER_REQUEST,
+      () => true,
+      timeoutMs
+    ).then((msg) => <string>msg.data.pluginId);
+  }
+
+  /**
+   * Send a raw message to the registered plugin.
+   */
+  sendMessage(messageType: number, data: Record<string, unknown> = {}): void {
+    if (!this.ws) {
+      throw new Error('No plugin registered');
+    }
+
+    const jsonObj = JSON.stringify({
+      messageType,
+      data: Object.assign({ pluginId: this.pluginId }, data),
+    });
+    this.verbose && console.log('FakeGateway: Sending:', jsonObj);
+    this.ws.send(jsonObj);
+  }
+
+  setProperty(data: FakeGatewayMessageData<DeviceSetPropertyCommandMessageData>): void {
+    this.sendMessage(MessageType.DEVICE_SET_PROPERTY_COMMAND, data);
+  }
+
+  requestAction(data: FakeGatewayRequestData<DeviceRequestActionRequestMessageData>): number {
+    return this.sendRequest(MessageType.DEVICE_REQUEST_ACTION_REQUEST, data);
+  }
+
+  removeAction(data: FakeGatewayRequestData<DeviceRemoveActionRequestMessageData>): number {
+    return this.sendRequest(MessageType.DEVICE_REMOVE_ACTION_REQUEST, data);
+  }
+
+  setPin(data: FakeGatewayRequestData<DeviceSetPINRequestMessageData>): number {
+    return this.sendRequest(MessageType.DEVICE_SET_PIN_REQUEST, data);
+  }
+
+  setCredentials(data: FakeGatewayRequestData<DeviceSetCredentialsRequestMessageData>): number {
+    return this.sendRequest(MessageType.DEVICE_SET_CREDENTIALS_REQUEST, data);
+  }
+
+  deviceSaved(data: FakeGatewayMessageData<DeviceSavedNotificationMessageData>): void {
+    this.sendMessage(MessageType.DEVICE_SAVED_NOTIFICATION, data);
+  }
+
+  startPairing(data: FakeGatewayMessageData<AdapterStartPairingCommandMessageData>): void {
+    this.sendMessage(MessageType.ADAPTER_START_PAIRING_COMMAND, data);
+  }
+
+  cancelPairing(data: FakeGatewayMessageData<AdapterCancelPairingCommandMessageData>): void {
+    this.sendMessage(MessageType.ADAPTER_CANCEL_PAIRING_COMMAND, data);
+  }
+
+  removeDevice(data: FakeGatewayMessageData<AdapterRemoveDeviceRequestMessageData>): void {
+    this.sendMessage(MessageType.ADAPTER_REMOVE_DEVICE_REQUEST, data);
+  }
+
+  cancelRemoveDevice(
+    data: FakeGatewayMessageData<AdapterCancelRemoveDeviceCommandMessageData>
+  ): void {
+    this.sendMessage(MessageType.ADAPTER_CANCEL_REMOVE_DEVICE_COMMAND, data);
+  }
+
+  unloadAdapter(data: FakeGatewayMessageData<AdapterUnloadRequestMessageData>): void {
+    this.sendMessage(MessageType.ADAPTER_UNLOAD_REQUEST, data);
+  }
+
+  unloadNotifier(data: FakeGatewayMessageData<NotifierUnloadRequestMessageData>): void {
+    this.sendMessage(MessageType.NOTIFIER_UNLOAD_REQUEST, data);
+  }
+
+  notifyOutlet(data: FakeGatewayRequestData<OutletNotifyRequestMessageData>): number {
+    return this.sendRequest(MessageType.OUTLET_NOTIFY_REQUEST, data);
+  }
+
+  apiRequest(data: FakeGatewayRequestData<APIHandlerAPIRequestMessageData>): number {
+    return this.sendRequest(MessageType.API_HANDLER_API_REQUEST, data);
+  }
+
+  unloadAPIHandler(data: FakeGatewayMessageData<APIHandlerUnloadRequestMessageData>): void {
+    this.sendMessage(MessageType.API_HANDLER_UNLOAD_REQUEST, data);
+  }
+
+  unloadPlugin(): void {
+    this.sendMessage(MessageType.PLUGIN_UNLOAD_REQUEST);
+  }
+
+  /**
+   * Send a message which carries a messageId, generating one if needed.
+   *
+   * @returns the messageId used.
+   */
+  private sendRequest(messageType: number, data: { messageId?: number }): number {
+    const messageId = data.messageId ?? ++this.nextMessageId;
+    this.sendMessage(messageType, Object.assign({}, data, { messageId }));
+    return messageId;
+  }
+
+  private onMsg(msg: Message, ws: WebSocket): void {
+    if (msg.messageType === MessageType.PLUGIN_REGISTER_REQUEST) {
+      this.ws = ws;
+      this.pluginId = <string>msg.data.pluginId;
+      this.sendMessage(MessageType.PLUGIN_REGISTER_RESPONSE, {
+        gatewayVersion: this.gatewayVersion,
+        userProfile: this.userProfile,
+        preferences: this.preferences,
+      });
+    }
+
+    this.notifications.push(msg);
+    this.emit('notification', msg);
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      if (waiter.messageType === msg.messageType && waiter.predicate(msg)) {
+        waiter.resolve(msg);
+      } else {
+        this.waiters.push(waiter);
+      }
+    }
+  }
+}
@@ -8,17 +8,32 @@ import { Action } from './action';
 import { Adapter } from './adapter';
 import { AddonManagerProxy } from './addon-manager-proxy';
 import { APIHandler, APIRequest, APIResponse } from './api-handler';
+import * as Capabilities from './capabilities';
 import * as Constants from './constants';
+import * as Converters from './converters';
 import { Database } from './database';
 import { Deferred } from './deferred';
 import { Device } from './device';
+import { DeviceDescriptionError } from './device-description';
+import { DeviceRegistry } from './device-registry';
+import * as DeviceTemplates from './device-templates';
+import * as Discovery from './discovery';
+import { MdnsProvider } from './discovery-mdns';
+import { SsdpProvider } from './discovery-ssdp';
+import { UdpBroadcastProvider } from './discovery-udp';
 import { Event } from './event';
-import { IpcSocket } from './ipc';
+import { FakeGateway } from './fake-gateway';
+import { IpcSocket, MessageValidationError } from './ipc';
 import { Manifest, Moziot } from './manifest';
+import { MessageDispatcher } from './message-dispatcher';
 import { Notifier } from './notifier';
 import { Outlet } from './outlet';
+import { PairingError, PairingFlow } from './pairing-flow';
+import { PairingSession } from './pairing-session';
 import { PluginClient } from './plugin-client';
-import { Property } from './property';
+import { Property, PropertyValueError } from './property';
+import { PropertyPoller } from './property-poller';
+import { FileSecretsStore, MemorySecretsStore } from './secrets-store';
 import * as Utils from './utils';
 import version from './version';
 
@@ -29,18 +44,37 @@ export {
   APIHandler,
   APIRequest,
   APIResponse,
+  Capabilities,
   Constants,
+  Converters,
   Database,
   Deferred,
   Device,
+  DeviceDescriptionError,
+  DeviceRegistry,
+  DeviceTemplates,
+  Discovery,
   Event,
+  FakeGateway,
+  FileSecretsStore,
   IpcSocket,
   Manifest,
+  MdnsProvider,
+  MemorySecretsStore,
+  MessageDispatcher,
+  MessageValidationError,
   Moziot,
   Notifier,
   Outlet,
+  PairingError,
+  PairingFlow,
+  PairingSession,
   PluginClient,
   Property,
+  PropertyPoller,
+  PropertyValueError,
+  SsdpProvider,
+  UdpBroadcastProvider,
   Utils,
 };
 
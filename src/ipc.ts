@@ -1,10 +1,39 @@
-import Ajv, { ValidateFunction } from 'ajv';
-import fs from 'fs';
-import path from 'path';
+import { ErrorObject, ValidateFunction } from 'ajv';
+import { EventEmitter } from 'events';
+import { validators } from './message-validators';
 import WebSocket from 'ws';
 import { Message } from './schema';
+import { redactMessage } from './utils';
+
+/**
+ * Error raised when a message does not match its schema.
+ */
+export class MessageValidationError extends Error {
+  public messageType: number;
+
+  public errors: ErrorObject[];
+
+  constructor(messageType: number, errors: ErrorObject[]) {
+    const details = errors
+      .map((e) => `${e.schemaPath} at "${e.dataPath || '/'}": ${e.message}`)
+      .join('; ');
+    super(`Invalid message of type ${messageType}: ${details}`);
+    this.name = 'MessageValidationError';
+    this.messageType = messageType;
+    this.errors = errors;
+  }
+}
+
+/**
+ * What to do with an incoming message which fails validation:
+ *  - 'drop': log it and drop it
+ *  - 'dispatch': log it and pass it on to the handler anyway
+ *  - 'error': drop it, the owner is expected to report the error back via the
+ *    'invalid' event
+ */
+export type InvalidMessagePolicy = 'drop' | 'dispatch' | 'error';
 
-export class IpcSocket {
+export class IpcSocket extends EventEmitter {
   private isServer: boolean;
 
   private port: number;
@@ -15,7 +44,9 @@ export class IpcSocket {
 
   private verbose: boolean;
 
-  private validators: Record<number, ValidateFunction> = {};
+  private invalidMessagePolicy: InvalidMessagePolicy;
+
+  private validators: Record<number, ValidateFunction>;
 
   private wss?: WebSocket.Server;
 
@@ -23,45 +54,46 @@ export class IpcSocket {
 
   private connectPromise?: Promise<WebSocket>;
 
+  private listeningPromise?: Promise<number>;
+
   constructor(
     isServer: boolean,
     port: number,
     onMsg: (_data: Message, _ws: WebSocket) => void,
     logPrefix: string,
-    { verbose }: Record<string, unknown> = {}
+    { verbose, invalidMessagePolicy = 'drop' }: Record<string, unknown> = {}
   ) {
+    super();
     this.isServer = isServer;
     this.port = port;
     this.onMsg = onMsg;
     this.logPrefix = logPrefix;
     this.verbose = !!verbose;
+    this.invalidMessagePolicy = <InvalidMessagePolicy>invalidMessagePolicy;
 
-    // Build the JSON-Schema validator for incoming messages
-    const baseDir = path.resolve(path.join(__dirname, '..', 'schema'));
-    const schemas = [];
-
-    // top-level schema
-    schemas.push(JSON.parse(fs.readFileSync(path.join(baseDir, 'schema.json')).toString()));
-
-    // individual message schemas
-    for (const fname of fs.readdirSync(path.join(baseDir, 'messages'))) {
-      const filePath = path.join(baseDir, 'messages', fname);
-      schemas.push(JSON.parse(fs.readFileSync(filePath).toString()));
-    }
-
-    for (const schema of schemas) {
-      if (schema?.properties?.messageType) {
-        const validate = new Ajv({ schemas }).getSchema(schema.$id);
-        if (validate) {
-          this.validators[schema.properties.messageType.const] = validate;
-        }
-      } else {
-        console.debug(`Ignoring ${schema.$id} because it has no messageType`);
-      }
-    }
+    // The validators are compiled from the schemas by generate-types.js.
+    this.validators = validators;
 
     if (this.isServer) {
-      this.wss = new WebSocket.Server({ host: '127.0.0.1', port: this.port });
+      const wss = new WebSocket.Server({ host: '127.0.0.1', port: this.port });
+      this.wss = wss;
+      this.listeningPromise = new Promise((resolve, reject) => {
+        let listening = false;
+        wss.on('listening', () => {
+          listening = true;
+          // The port may have been picked by the OS if 0 was requested.
+          this.port = (<{ port: number }>wss.address()).port;
+          resolve(this.port);
+        });
+        wss.on('error', (err) => {
+          if (listening) {
+            this.error('Server error:', err.message);
+          } else {
+            // e.g. EADDRINUSE
+            reject(err);
+          }
+        });
+      });
       this.wss.on('connection', (ws) => {
         ws.on('message', (data) => {
           this.onData(data, ws);
@@ -74,6 +106,12 @@ export class IpcSocket {
         ws.on('open', () => resolve(ws));
       });
       this.ws.on('message', this.onData.bind(this));
+      this.ws.on('error', (err) => {
+        this.error('Socket error:', err.message);
+      });
+      this.ws.on('close', () => {
+        this.emit('close');
+      });
     }
   }
 
@@ -81,6 +119,18 @@ export class IpcSocket {
     return this.connectPromise;
   }
 
+  /**
+   * @returns a promise which resolves to the bound port once a server socket
+   *          is listening.
+   */
+  getListeningPromise(): Promise<number> | undefined {
+    return this.listeningPromise;
+  }
+
+  getPort(): number {
+    return this.port;
+  }
+
   error(...args: unknown[]): void {
     Array.prototype.unshift.call(args, this.logPrefix);
     console.error.apply(null, args);
@@ -99,6 +149,34 @@ export class IpcSocket {
     }
   }
 
+  /**
+   * @method validate
+   * @param {object} data - The message to validate
+   * @returns null if the message is valid, otherwise the list of errors.
+   */
+  validate(data: { messageType?: number }): ErrorObject[] | null {
+    const messageType = <number>data.messageType;
+
+    if (!(messageType in this.validators)) {
+      return [
+        {
+          keyword: 'messageType',
+          dataPath: '/messageType',
+          schemaPath: '#/properties/messageType',
+          params: { messageType },
+          message: `unknown messageType ${messageType}`,
+        },
+      ];
+    }
+
+    const validator = this.validators[messageType];
+    if (validator(data)) {
+      return null;
+    }
+
+    return validator.errors ?? [];
+  }
+
   /**
    * @method onData
    * @param {Buffer} buf
@@ -116,26 +194,44 @@ export class IpcSocket {
       this.error(err);
       return;
     }
-    this.verbose && this.log('Rcvd:', data);
+    this.verbose && this.log('Rcvd:', redactMessage(data));
 
     // validate the message before forwarding to handler
     const messageType = data.messageType;
+    let errors: ErrorObject[] | null;
 
     if (typeof messageType !== 'undefined') {
-      if (messageType in this.validators) {
-        const validator = this.validators[messageType];
+      errors = this.validate(data);
 
-        if (!validator(data)) {
-          const dataJson = JSON.stringify(data, null, 2);
-          const errorJson = JSON.stringify(validator.errors, null, 2);
+      if (errors) {
+        if (messageType in this.validators) {
+          const dataJson = JSON.stringify(redactMessage(data), null, 2);
+          const errorJson = JSON.stringify(errors, null, 2);
           console.error(`Invalid message received: ${dataJson}`);
           console.error(`Validation error: ${errorJson}`);
+        } else {
+          console.error(`Unknown messageType ${messageType}`);
         }
-      } else {
-        console.error(`Unknown messageType ${messageType}`);
       }
     } else {
       console.error(`Message ${bufStr} has no messageType`);
+      errors = [
+        {
+          keyword: 'required',
+          dataPath: '',
+          schemaPath: '#/required',
+          params: { missingProperty: 'messageType' },
+          message: 'should have required property messageType',
+        },
+      ];
+    }
+
+    if (errors) {
+      this.emit('invalid', data, errors, ws);
+
+      if (this.invalidMessagePolicy !== 'dispatch') {
+        return;
+      }
     }
 
     this.onMsg(data, ws);
@@ -0,0 +1,97 @@
+/**
+ * @module MessageDispatcher
+ *
+ * Routes incoming IPC messages to handlers registered per message type.
+ */
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { MessageTypeMap } from './message-type';
+import { Message } from './schema';
+
+export type { MessageTypeMap } from './message-type';
+
+export type DispatchErrorReason =
+  | 'unhandled'
+  | 'unknown-adapter'
+  | 'unknown-device'
+  | 'unknown-property'
+  | 'unknown-notifier'
+  | 'unknown-outlet'
+  | 'unknown-api-handler';
+
+/**
+ * Describes why a message could not be handled.
+ */
+export interface DispatchError {
+  messageType: number;
+  reason: DispatchErrorReason;
+  message: string;
+}
+
+/**
+ * A message handler. Returning a DispatchError reports that the message could
+ * not be handled.
+ */
+export type MessageHandler<T> = (msg: T) => DispatchError | null | void;
+
+/**
+ * Build a DispatchError.
+ */
+export function dispatchError(
+  messageType: number,
+  reason: DispatchErrorReason,
+  message: string
+): DispatchError {
+  return { messageType, reason, message };
+}
+
+export class MessageDispatcher {
+  private handlers = new Map<number, MessageHandler<Message>>();
+
+  /**
+   * Register the handler for a message type, replacing any existing one.
+   *
+   * @param {number} messageType - Message type to handle
+   * @param {function} handler - Called with each message of that type
+   */
+  register<K extends keyof MessageTypeMap>(
+    messageType: K,
+    handler: MessageHandler<MessageTypeMap[K]>
+  ): void;
+
+  register(messageType: number, handler: MessageHandler<Message>): void;
+
+  register(messageType: number, handler: MessageHandler<never>): void {
+    this.handlers.set(messageType, <MessageHandler<Message>>handler);
+  }
+
+  unregister(messageType: number): void {
+    this.handlers.delete(messageType);
+  }
+
+  hasHandler(messageType: number): boolean {
+    return this.handlers.has(messageType);
+  }
+
+  /**
+   * Pass a message to the handler registered for its type.
+   *
+   * @returns null if the message was handled, otherwise the reason why not.
+   */
+  dispatch(msg: Message): DispatchError | null {
+    const handler = this.handlers.get(msg.messageType);
+    if (!handler) {
+      return dispatchError(
+        msg.messageType,
+        'unhandled',
+        `No handler for messageType ${msg.messageType}`
+      );
+    }
+
+    return handler(msg) || null;
+  }
+}
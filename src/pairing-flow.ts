@@ -0,0 +1,129 @@
+/**
+ * PairingFlow.
+ *
+ * Tracks the steps a device needs before it can be used, e.g. entering a PIN
+ * and then credentials, and how many attempts are left for each.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+export type PairingStep = 'pin' | 'credentials';
+
+/**
+ * Why a pairing step failed:
+ *  - 'device-not-found': the device is not known to the adapter
+ *  - 'invalid-pin': the PIN does not match the device's pinPattern
+ *  - 'incorrect-pin': the device rejected the PIN
+ *  - 'incorrect-credentials': the device rejected the credentials
+ *  - 'too-many-attempts': no attempts are left for the step
+ *  - 'failed': anything else
+ */
+export type PairingErrorReason =
+  | 'device-not-found'
+  | 'invalid-pin'
+  | 'incorrect-pin'
+  | 'incorrect-credentials'
+  | 'too-many-attempts'
+  | 'failed';
+
+/**
+ * Error raised by Adapter.setPin() and Adapter.setCredentials(). The reason is
+ * passed on to the gateway.
+ */
+export class PairingError extends Error {
+  public reason: PairingErrorReason;
+
+  constructor(reason: PairingErrorReason, message: string) {
+    super(message);
+    this.name = 'PairingError';
+    this.reason = reason;
+  }
+}
+
+export interface PairingFlowOptions {
+  /**
+   * Steps the device needs, in order.
+   */
+  steps: PairingStep[];
+
+  /**
+   * Number of failed attempts allowed per step. Defaults to 3.
+   */
+  maxAttempts?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export class PairingFlow {
+  private steps: PairingStep[];
+
+  private maxAttempts: number;
+
+  private failures = new Map<PairingStep, number>();
+
+  private completed = new Set<PairingStep>();
+
+  constructor({ steps, maxAttempts }: PairingFlowOptions) {
+    this.steps = steps.slice();
+    this.maxAttempts = maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  }
+
+  getSteps(): PairingStep[] {
+    return this.steps;
+  }
+
+  hasStep(step: PairingStep): boolean {
+    return this.steps.includes(step);
+  }
+
+  /**
+   * @returns the first step which has not been completed, or null once all of
+   *          them have.
+   */
+  getCurrentStep(): PairingStep | null {
+    return this.steps.find((step) => !this.completed.has(step)) ?? null;
+  }
+
+  isComplete(): boolean {
+    return this.getCurrentStep() === null;
+  }
+
+  getRemainingAttempts(step: PairingStep): number {
+    return Math.max(0, this.maxAttempts - (this.failures.get(step) ?? 0));
+  }
+
+  /**
+   * Check that another attempt may be made at a step.
+   *
+   * @throws {PairingError} if no attempts are left.
+   */
+  checkAttempt(step: PairingStep): void {
+    if (this.getRemainingAttempts(step) <= 0) {
+      throw new PairingError('too-many-attempts', `No attempts left for ${step}`);
+    }
+  }
+
+  /**
+   * Record a failed attempt.
+   *
+   * @returns the number of attempts left.
+   */
+  recordFailure(step: PairingStep): number {
+    this.failures.set(step, (this.failures.get(step) ?? 0) + 1);
+    return this.getRemainingAttempts(step);
+  }
+
+  recordSuccess(step: PairingStep): void {
+    this.completed.add(step);
+    this.failures.delete(step);
+  }
+
+  /**
+   * Forget the failed attempts of every step. Completed steps stay completed.
+   */
+  resetAttempts(): void {
+    this.failures.clear();
+  }
+}
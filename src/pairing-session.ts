@@ -0,0 +1,173 @@
+/**
+ * PairingSession.
+ *
+ * State of one pairing run of an adapter, from startPairing() until it is
+ * cancelled, times out or discovery completes.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { EventEmitter } from 'events';
+import { createAbortController } from './abort-controller';
+import { Adapter } from './adapter';
+import { Device } from './device';
+
+/**
+ * Why a pairing session ended:
+ *  - 'completed': discovery finished on its own
+ *  - 'cancelled': the gateway or the adapter cancelled pairing
+ *  - 'timeout': the timeout passed to startPairing() ran out
+ */
+export type PairingEndReason = 'completed' | 'cancelled' | 'timeout';
+
+/**
+ * Emits:
+ *  - 'device'(device) for every new device reported through addDevice()
+ *  - 'end'(reason) once, when the session ends
+ */
+export class PairingSession extends EventEmitter {
+  private adapter: Adapter;
+
+  private timeoutSeconds: number;
+
+  private startTime: number;
+
+  private controller = createAbortController();
+
+  private timer?: NodeJS.Timeout | null;
+
+  private devices = new Map<string, Device>();
+
+  private endReason?: PairingEndReason | null;
+
+  constructor(adapter: Adapter, timeoutSeconds: number) {
+    super();
+    this.adapter = adapter;
+    this.timeoutSeconds = timeoutSeconds;
+    this.startTime = Date.now();
+
+    if (timeoutSeconds > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.end('timeout');
+      }, timeoutSeconds * 1000);
+    }
+  }
+
+  getAdapter(): Adapter {
+    return this.adapter;
+  }
+
+  getTimeoutSeconds(): number {
+    return this.timeoutSeconds;
+  }
+
+  /**
+   * @returns the number of seconds left before the session times out.
+   */
+  getRemainingSeconds(): number {
+    if (!this.isActive()) {
+      return 0;
+    }
+
+    const elapsed = (Date.now() - this.startTime) / 1000;
+    return Math.max(0, this.timeoutSeconds - elapsed);
+  }
+
+  /**
+   * @returns a signal which is aborted when the session ends. Discovery code
+   *          should stop when it fires.
+   */
+  getSignal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  isActive(): boolean {
+    return !this.endReason;
+  }
+
+  getEndReason(): PairingEndReason | null | undefined {
+    return this.endReason;
+  }
+
+  /**
+   * @returns the devices found during this session.
+   */
+  getDevices(): Device[] {
+    return Array.from(this.devices.values());
+  }
+
+  /**
+   * @returns true if a device with this ID is already known, either to the
+   *          adapter or to this session. Discovery code can use this to skip
+   *          building devices which would be ignored anyway.
+   */
+  isKnown(deviceId: string): boolean {
+    return this.devices.has(deviceId) || !!this.adapter.getDevices()[deviceId];
+  }
+
+  /**
+   * Report a device found by discovery. New devices are passed to
+   * Adapter.handleDeviceAdded(); devices which are already known, and devices
+   * reported after the session has ended, are ignored.
+   *
+   * @returns true if the device was added.
+   */
+  addDevice(device: Device): boolean {
+    const deviceId = device.getId();
+    if (!this.isActive() || this.isKnown(deviceId)) {
+      if (this.adapter.isVerbose()) {
+        console.log('PairingSession: Ignoring device', deviceId);
+      }
+      return false;
+    }
+
+    this.devices.set(deviceId, device);
+    this.adapter.handleDeviceAdded(device);
+    this.emit('device', device);
+    return true;
+  }
+
+  /**
+   * Send a pairing prompt for this session. Prompts are dropped once the
+   * session has ended.
+   *
+   * @param {string} prompt - The prompt to send
+   * @param {string} url - URL to site with further explanation or
+   *                 troubleshooting info
+   * @param {Object?} device - Device the prompt is associated with
+   * @returns true if the prompt was sent.
+   */
+  sendPrompt(prompt: string, url?: string, device?: Device): boolean {
+    if (!this.isActive()) {
+      return false;
+    }
+
+    this.adapter.sendPairingPrompt(prompt, url, device);
+    return true;
+  }
+
+  /**
+   * End the session, unless it has already ended. The signal is aborted.
+   */
+  end(reason: PairingEndReason): void {
+    if (this.endReason) {
+      return;
+    }
+
+    this.endReason = reason;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.controller.abort();
+    this.emit('end', reason);
+  }
+
+  cancel(): void {
+    this.end('cancelled');
+  }
+}
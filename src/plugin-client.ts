@@ -13,9 +13,55 @@ import { AddonManagerProxy } from './addon-manager-proxy';
 import { MessageType } from './constants';
 import { Deferred } from './deferred';
 import { EventEmitter } from 'events';
-import { IpcSocket } from './ipc';
+import { InvalidMessagePolicy, IpcSocket, MessageValidationError } from './ipc';
 import WebSocket from 'ws';
+import { ErrorObject } from 'ajv';
 import { Message, PluginRegisterResponse, Preferences, UserProfile } from './schema';
+import { redactMessage } from './utils';
+
+const DEFAULT_RECONNECT_DELAY_MS = 500;
+
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+
+const DEFAULT_MAX_QUEUE_LENGTH = 1000;
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+// Notifications which are kept while disconnected and sent once the plugin
+// has registered again. Anything else is rebuilt by the replay.
+const BUFFERED_MESSAGE_TYPES = [
+  MessageType.DEVICE_PROPERTY_CHANGED_NOTIFICATION,
+  MessageType.DEVICE_ACTION_STATUS_NOTIFICATION,
+  MessageType.DEVICE_EVENT_NOTIFICATION,
+  MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION,
+];
+
+export interface RequestOptions {
+  /**
+   * How long to wait for the reply, in ms.
+   */
+  timeout?: number;
+
+  /**
+   * If set, only a message of this type is accepted as the reply. Otherwise
+   * any *_RESPONSE message with the same messageId is. Requests from the
+   * gateway are never taken as replies, even if their messageId matches.
+   */
+  responseType?: number;
+}
+
+/**
+ * @returns true if the message type is one of the *_RESPONSE types.
+ */
+function isResponseType(messageType: number): boolean {
+  return /_RESPONSE$/.test(MessageType[messageType] ?? '');
+}
+
+interface PendingRequest {
+  deferred: Deferred<Message, Error>;
+  responseType?: number;
+  timer: NodeJS.Timeout;
+}
 
 export class PluginClient extends EventEmitter {
   private pluginId: string;
@@ -36,13 +82,77 @@ export class PluginClient extends EventEmitter {
 
   private ipcSocket?: IpcSocket;
 
-  private ws?: WebSocket;
+  private ws?: WebSocket | null;
+
+  private port?: number;
+
+  private registered = false;
+
+  private unloading = false;
+
+  private reconnect: boolean;
+
+  private reconnectDelay: number;
+
+  private maxReconnectDelay: number;
+
+  private reconnectAttempts = 0;
+
+  private reconnectTimer?: NodeJS.Timeout | null;
+
+  private maxQueueLength: number;
+
+  private queue: string[] = [];
+
+  private pendingRequests = new Map<number, PendingRequest>();
+
+  private strict: boolean;
 
-  constructor(pluginId: string, { verbose }: Record<string, unknown> = {}) {
+  private invalidMessagePolicy: InvalidMessagePolicy;
+
+  private validationFailures: Record<number, number> = {};
+
+  /**
+   * @param {string} pluginId - ID of the plugin
+   * @param {object} options - Options, as such:
+   *                   .verbose {boolean} Log all traffic
+   *                   .reconnect {boolean} Reconnect when the connection to
+   *                     the gateway drops, defaults to true
+   *                   .reconnectDelay {number} Initial reconnect delay, in ms
+   *                   .maxReconnectDelay {number} Upper bound for the
+   *                     exponential reconnect backoff, in ms
+   *                   .maxQueueLength {number} Number of property changed and
+   *                     event notifications kept while disconnected
+   *                   .strict {boolean} Validate outgoing messages against
+   *                     the IPC schema. Invalid messages are logged, emitted
+   *                     as 'invalidOutgoing' and not sent, unless NODE_ENV is
+   *                     'production', where they are only logged.
+   *                   .invalidMessagePolicy {string} What to do with invalid
+   *                     incoming messages: 'drop' (default), 'dispatch' or
+   *                     'error', which replies with PLUGIN_ERROR_NOTIFICATION
+   */
+  constructor(
+    pluginId: string,
+    {
+      verbose,
+      reconnect = true,
+      reconnectDelay = DEFAULT_RECONNECT_DELAY_MS,
+      maxReconnectDelay = DEFAULT_MAX_RECONNECT_DELAY_MS,
+      maxQueueLength = DEFAULT_MAX_QUEUE_LENGTH,
+      strict,
+      invalidMessagePolicy = 'drop',
+    }: Record<string, unknown> = {}
+  ) {
     super();
     this.pluginId = pluginId;
     this.verbose = !!verbose;
     this.logPrefix = `PluginClient(${this.pluginId}):`;
+    this.reconnect = !!reconnect;
+    this.reconnectDelay = <number>reconnectDelay;
+    this.maxReconnectDelay = <number>maxReconnectDelay;
+    this.maxQueueLength = <number>maxQueueLength;
+    this.strict = !!strict;
+    this.invalidMessagePolicy = <InvalidMessagePolicy>invalidMessagePolicy;
   }
 
   getGatewayVersion(): string | undefined {
@@ -58,13 +168,42 @@ export class PluginClient extends EventEmitter {
   }
 
   onMsg(genericMsg: Message): void {
-    this.verbose && console.log(this.logPrefix, 'rcvd ManagerMsg:', genericMsg);
+    this.verbose && console.log(this.logPrefix, 'rcvd ManagerMsg:', redactMessage(genericMsg));
+
+    const messageId = genericMsg.data?.messageId;
+    if (typeof messageId === 'number' && this.pendingRequests.has(messageId)) {
+      const request = this.pendingRequests.get(messageId)!;
+      if (
+        typeof request.responseType === 'number'
+          ? request.responseType === genericMsg.messageType
+          : isResponseType(genericMsg.messageType)
+      ) {
+        this.pendingRequests.delete(messageId);
+        clearTimeout(request.timer);
+        request.deferred.resolve(genericMsg);
+        return;
+      }
+    }
 
     if (genericMsg.messageType === MessageType.PLUGIN_REGISTER_RESPONSE) {
       const msg = <PluginRegisterResponse>genericMsg;
       this.gatewayVersion = msg.data.gatewayVersion;
       this.userProfile = msg.data.userProfile;
       this.preferences = msg.data.preferences;
+      this.registered = true;
+      this.reconnectAttempts = 0;
+
+      if (this.addonManager) {
+        this.verbose && console.log(this.logPrefix, 're-registered with PluginServer');
+
+        // The gateway has lost track of us, so tell it about everything again
+        // before sending whatever was queued while we were gone.
+        this.addonManager.replay();
+        this.flushQueue();
+        this.emit('reconnected', {});
+        return;
+      }
+
       this.addonManager = new AddonManagerProxy(this);
 
       this.verbose && console.log(this.logPrefix, 'registered with PluginServer');
@@ -75,6 +214,12 @@ export class PluginClient extends EventEmitter {
         deferredReply.resolve(this.addonManager);
       }
     } else if (this.addonManager) {
+      if (genericMsg.messageType === MessageType.PLUGIN_UNLOAD_REQUEST) {
+        // The gateway is about to close the connection, which must not be
+        // taken for a dropped one.
+        this.unloading = true;
+      }
+
       this.addonManager.onMsg(genericMsg);
     }
   }
@@ -85,35 +230,235 @@ export class PluginClient extends EventEmitter {
       return Promise.resolve();
     }
     this.deferredReply = new Deferred();
+    this.port = port;
+    this.connect();
+
+    return this.deferredReply.getPromise();
+  }
+
+  /**
+   * @returns true if the plugin is connected and registered with the gateway.
+   */
+  isConnected(): boolean {
+    return this.registered;
+  }
 
-    this.ipcSocket = new IpcSocket(
+  private connect(): void {
+    const ipcSocket = new IpcSocket(
       false,
-      port,
+      this.port!,
       this.onMsg.bind(this),
       `IpcSocket(${this.pluginId}):`,
-      { verbose: this.verbose }
+      { verbose: this.verbose, invalidMessagePolicy: this.invalidMessagePolicy }
     );
-    this.ipcSocket?.getConnectPromise()?.then((ws) => {
+    this.ipcSocket = ipcSocket;
+
+    ipcSocket.on('close', () => this.onClose(ipcSocket));
+    ipcSocket.on('invalid', this.onInvalidMsg.bind(this));
+    ipcSocket.getConnectPromise()?.then((ws) => {
       this.ws = ws;
 
       // Register ourselves with the server
       this.verbose && console.log(this.logPrefix, 'Connected to server, registering...');
 
-      this.sendNotification(MessageType.PLUGIN_REGISTER_REQUEST);
+      this.send(MessageType.PLUGIN_REGISTER_REQUEST);
     });
+  }
 
-    return this.deferredReply.getPromise();
+  /**
+   * @returns the number of incoming messages which failed validation, keyed
+   *          by messageType. Messages without a messageType are counted
+   *          under -1.
+   */
+  getValidationFailures(): Record<number, number> {
+    return Object.assign({}, this.validationFailures);
+  }
+
+  private onInvalidMsg(data: { messageType?: number }, errors: ErrorObject[]): void {
+    const messageType = typeof data?.messageType === 'number' ? data.messageType : -1;
+    this.validationFailures[messageType] = (this.validationFailures[messageType] ?? 0) + 1;
+
+    if (this.invalidMessagePolicy === 'error') {
+      this.sendNotification(MessageType.PLUGIN_ERROR_NOTIFICATION, {
+        message: new MessageValidationError(messageType, errors).message,
+      });
+    }
+  }
+
+  private onClose(ipcSocket: IpcSocket): void {
+    if (ipcSocket !== this.ipcSocket) {
+      return;
+    }
+
+    const wasRegistered = this.registered;
+    this.ws = null;
+    this.registered = false;
+    this.rejectPendingRequests(new Error('Connection to gateway lost'));
+
+    if (this.unloading || !this.reconnect) {
+      return;
+    }
+
+    if (wasRegistered) {
+      console.error(this.logPrefix, 'Connection to gateway lost');
+      this.emit('disconnected', {});
+    }
+
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempts),
+      this.maxReconnectDelay
+    );
+    this.reconnectAttempts++;
+
+    this.verbose && console.log(this.logPrefix, `Reconnecting in ${delay} ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
   }
 
   sendNotification(messageType: number, data: Record<string, unknown> = {}): void {
-    data.pluginId = this.pluginId;
+    if (!this.registered && !BUFFERED_MESSAGE_TYPES.includes(messageType)) {
+      this.verbose && console.log(this.logPrefix, 'Not connected, dropping:', messageType);
+      return;
+    }
 
-    const jsonObj = JSON.stringify({ messageType, data });
+    // Notifications are often sent from timers, where nobody would catch a
+    // validation error.
+    let jsonObj: string;
+    try {
+      jsonObj = this.serialize(messageType, data);
+    } catch (err) {
+      this.emit('invalidOutgoing', err);
+      return;
+    }
+
+    if (this.registered) {
+      this.sendSerialized(jsonObj);
+      return;
+    }
+
+    this.queue.push(jsonObj);
+
+    if (this.queue.length > this.maxQueueLength) {
+      this.queue.shift();
+    }
+  }
+
+  /**
+   * Send a message to the gateway and wait for the reply carrying the same
+   * messageId.
+   *
+   * @param {number} messageType - Type of the message to send
+   * @param {object} data - Message data. The messageId is filled in.
+   * @param {object} options - Request options
+   * @returns a promise which resolves to the reply message.
+   */
+  request(
+    messageType: number,
+    data: Record<string, unknown> = {},
+    { timeout = DEFAULT_REQUEST_TIMEOUT_MS, responseType }: RequestOptions = {}
+  ): Promise<Message> {
+    if (!this.registered) {
+      return Promise.reject(new Error('Not connected to gateway'));
+    }
+
+    const deferred = new Deferred<Message, Error>();
+    const messageId = deferred.getId();
+
+    let jsonObj: string;
+    try {
+      jsonObj = this.serialize(messageType, Object.assign({}, data, { messageId }));
+    } catch (err) {
+      this.emit('invalidOutgoing', err);
+      return Promise.reject(err);
+    }
+
+    const timer = setTimeout(() => {
+      this.pendingRequests.delete(messageId);
+      deferred.reject(new Error(`Request ${messageId} (${messageType}) timed out`));
+    }, timeout);
+
+    this.pendingRequests.set(messageId, { deferred, responseType, timer });
+    this.sendSerialized(jsonObj);
+
+    return deferred.getPromise();
+  }
+
+  private rejectPendingRequests(reason: Error): void {
+    const pendingRequests = this.pendingRequests;
+    this.pendingRequests = new Map();
+
+    pendingRequests.forEach((request) => {
+      clearTimeout(request.timer);
+      request.deferred.reject(reason);
+    });
+  }
+
+  private send(messageType: number, data: Record<string, unknown> = {}): void {
+    this.sendSerialized(this.serialize(messageType, data));
+  }
+
+  private sendSerialized(jsonObj: string): void {
     this.verbose && console.log(this.logPrefix, 'Sending:', jsonObj);
     this.ws?.send(jsonObj);
   }
 
+  /**
+   * Serialize an outgoing message, and validate it in strict mode.
+   *
+   * @throws {MessageValidationError} if the message is invalid, unless
+   *         running in production.
+   */
+  private serialize(messageType: number, data: Record<string, unknown>): string {
+    data.pluginId = this.pluginId;
+
+    const jsonObj = JSON.stringify({ messageType, data });
+    this.strict && this.checkOutgoing(jsonObj);
+    return jsonObj;
+  }
+
+  /**
+   * Validate a serialized outgoing message against its schema. Invalid
+   * messages are logged.
+   *
+   * @throws {MessageValidationError} if the message is invalid, unless
+   *         running in production.
+   */
+  private checkOutgoing(jsonObj: string): void {
+    // Validate what actually goes over the wire, e.g. without undefined values.
+    const msg = JSON.parse(jsonObj);
+    const errors = this.ipcSocket?.validate(msg);
+    if (!errors) {
+      return;
+    }
+
+    const err = new MessageValidationError(msg.messageType, errors);
+    console.error(this.logPrefix, err.message);
+    if (process.env.NODE_ENV !== 'production') {
+      throw err;
+    }
+  }
+
+  private flushQueue(): void {
+    const queue = this.queue;
+    this.queue = [];
+
+    for (const jsonObj of queue) {
+      this.verbose && console.log(this.logPrefix, 'Sending queued:', jsonObj);
+      this.ws?.send(jsonObj);
+    }
+  }
+
   unload(): void {
+    this.unloading = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.rejectPendingRequests(new Error('Plugin unloaded'));
     this.ipcSocket?.close();
     this.emit('unloaded', {});
   }
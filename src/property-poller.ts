@@ -0,0 +1,209 @@
+/**
+ * PropertyPoller.
+ *
+ * Periodically reads the properties of a device which has no push updates.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Property } from './property';
+import { Any } from './schema';
+
+export interface PollingOptions {
+  /**
+   * Time between two reads, in milliseconds.
+   */
+  interval: number;
+
+  /**
+   * Reads the raw value from the device. Called by Property.getValue(), which
+   * converts the result with Property.fromDevice() and passes it to
+   * Property.setCachedValueAndNotify().
+   */
+  read: () => Promise<unknown>;
+
+  /**
+   * Random variation applied to each delay, as a fraction of the delay.
+   * Defaults to 0.1, i.e. +/- 10%.
+   */
+  jitter?: number;
+
+  /**
+   * Upper bound for the delay after consecutive failures, in milliseconds.
+   * Defaults to 32 times the interval.
+   */
+  maxBackoff?: number;
+}
+
+interface PollState {
+  property: Property<Any>;
+  timer?: NodeJS.Timeout | null;
+  failures: number;
+}
+
+const DEFAULT_JITTER = 0.1;
+
+const DEFAULT_MAX_BACKOFF_FACTOR = 32;
+
+export class PropertyPoller {
+  private states = new Map<string, PollState>();
+
+  private running = false;
+
+  private paused = false;
+
+  isRunning(): boolean {
+    return this.running && !this.paused;
+  }
+
+  /**
+   * Start polling the given properties.
+   */
+  start(properties: Property<Any>[]): void {
+    this.running = true;
+    for (const property of properties) {
+      this.update(property);
+    }
+  }
+
+  /**
+   * Stop polling. Reads which are in flight still update the property, but
+   * no further reads are scheduled.
+   */
+  stop(): void {
+    this.running = false;
+    this.clear();
+  }
+
+  /**
+   * Suspend polling, e.g. while the device is disconnected.
+   */
+  pause(): void {
+    this.paused = true;
+    for (const state of this.states.values()) {
+      this.clearTimer(state);
+    }
+  }
+
+  /**
+   * Resume polling after pause(). Every property is read again right away,
+   * with jitter.
+   */
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+
+    this.paused = false;
+    for (const state of this.states.values()) {
+      state.failures = 0;
+      this.schedule(state, this.initialDelay(state));
+    }
+  }
+
+  /**
+   * (Re)schedule a property, after its polling options have changed.
+   */
+  update(property: Property<Any>): void {
+    const name = property.getName();
+    const previous = this.states.get(name);
+    if (previous) {
+      this.clearTimer(previous);
+      this.states.delete(name);
+    }
+
+    if (!this.running || !property.getPollingOptions()) {
+      return;
+    }
+
+    const state: PollState = { property, failures: 0 };
+    this.states.set(name, state);
+
+    if (!this.paused) {
+      this.schedule(state, this.initialDelay(state));
+    }
+  }
+
+  private clear(): void {
+    for (const state of this.states.values()) {
+      this.clearTimer(state);
+    }
+    this.states.clear();
+  }
+
+  private clearTimer(state: PollState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+  }
+
+  private schedule(state: PollState, delay: number): void {
+    this.clearTimer(state);
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      this.poll(state);
+    }, delay);
+  }
+
+  private poll(state: PollState): void {
+    const property = state.property;
+    const options = property.getPollingOptions();
+    if (!options) {
+      return;
+    }
+
+    Promise.resolve()
+      .then(() => property.getValue())
+      .then(() => {
+        if (this.isCurrent(state)) {
+          state.failures = 0;
+        }
+      })
+      .catch((e) => {
+        if (!this.isCurrent(state)) {
+          return;
+        }
+
+        state.failures += 1;
+        console.error(
+          'PropertyPoller: Failed to read property',
+          property.getName(),
+          `(attempt ${state.failures}):`,
+          e
+        );
+      })
+      .then(() => {
+        if (this.isCurrent(state) && !this.paused) {
+          this.schedule(state, this.nextDelay(options, state.failures));
+        }
+      });
+  }
+
+  private isCurrent(state: PollState): boolean {
+    return this.running && this.states.get(state.property.getName()) === state;
+  }
+
+  private initialDelay(state: PollState): number {
+    const options = <PollingOptions>state.property.getPollingOptions();
+    const jitter = options.jitter ?? DEFAULT_JITTER;
+
+    // Spread the first reads out, so that a device's properties aren't all
+    // read at once.
+    return Math.round(Math.random() * jitter * options.interval);
+  }
+
+  private nextDelay(options: PollingOptions, failures: number): number {
+    const maxBackoff = options.maxBackoff ?? options.interval * DEFAULT_MAX_BACKOFF_FACTOR;
+    const jitter = options.jitter ?? DEFAULT_JITTER;
+
+    let delay = options.interval;
+    if (failures > 0) {
+      delay = Math.min(options.interval * Math.pow(2, failures), maxBackoff);
+    }
+
+    return Math.max(0, Math.round(delay * (1 + (Math.random() * 2 - 1) * jitter)));
+  }
+}
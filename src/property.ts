@@ -8,18 +8,140 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/.
  */
 
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { canConvertUnit, compose, PropertyConverter, unitConverter } from './converters';
 import { Device } from './device';
+import { PollingOptions } from './property-poller';
+import { deepEqual } from './utils';
 
 import { Any, PropertyForm, Property as PropertySchema, PropertyValueType } from './schema';
 
 import assert from 'assert';
 
+// Property descriptions carry non-validation keywords such as unit and
+// @type, so strict mode is off.
+const ajv = new Ajv({ strict: false, multipleOfPrecision: 9 });
+
+const TEMPERATURE_PROPERTY_TYPES = ['TemperatureProperty', 'TargetTemperatureProperty'];
+
+// Strings which are converted for number and integer properties. Number()
+// would also take e.g. '0x10', '1e3', ' 5 ' and ''.
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// JSON Schema keywords which are taken from the property description, in
+// addition to the ones Property keeps track of itself.
+const VALUE_SCHEMA_KEYWORDS = [
+  'const',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'items',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'properties',
+  'required',
+  'additionalProperties',
+];
+
+/**
+ * Limits on how often DEVICE_PROPERTY_CHANGED_NOTIFICATION is sent for a
+ * property. The cached value is always updated immediately.
+ */
+export interface NotificationOptions {
+  /**
+   * Smallest absolute change, from the last notified value, which is reported.
+   */
+  changeThreshold?: number;
+
+  /**
+   * Smallest change relative to the last notified value, e.g. 0.05 for 5%,
+   * which is reported.
+   */
+  relativeChangeThreshold?: number;
+
+  /**
+   * Minimum time between two notifications, in milliseconds. Changes within
+   * that window are coalesced, and the latest value is sent when it closes.
+   */
+  minInterval?: number;
+
+  /**
+   * Maximum time between two notifications, in milliseconds. The current value
+   * is sent again once it elapses, even if it did not change.
+   */
+  maxInterval?: number;
+}
+
+export interface OptimisticWriteOptions {
+  /**
+   * How long writeToDevice() may take before the write is considered failed,
+   * in milliseconds. Defaults to 5000.
+   */
+  timeout?: number;
+}
+
+const DEFAULT_OPTIMISTIC_WRITE_TIMEOUT_MS = 5000;
+
+/**
+ * Decides whether two values of a property are the same.
+ */
+export type ValueComparator<T> = (a: T | undefined, b: T | undefined) => boolean;
+
 interface LegacyPropertyDescription {
   min: number;
   max: number;
   label: string;
 }
 
+/**
+ * Error raised when a value is rejected by Property.setValue().
+ */
+export class PropertyValueError extends Error {
+  public propertyName: string;
+
+  public keyword: string;
+
+  public schemaPath: string;
+
+  public params: Record<string, unknown>;
+
+  constructor(propertyName: string, error: ErrorObject) {
+    super(PropertyValueError.describe(error));
+    this.name = 'PropertyValueError';
+    this.propertyName = propertyName;
+    this.keyword = error.keyword;
+    this.schemaPath = error.schemaPath;
+    this.params = error.params;
+  }
+
+  private static describe(error: ErrorObject): string {
+    const params = error.params;
+    switch (error.keyword) {
+      case 'readOnly':
+        return 'Read-only property';
+      case 'minimum':
+        return `Value less than minimum: ${params.limit}`;
+      case 'maximum':
+        return `Value greater than maximum: ${params.limit}`;
+      case 'multipleOf':
+        return `Value is not a multiple of: ${params.multipleOf}`;
+      case 'enum':
+        return 'Invalid enum value';
+      case 'type':
+        return `Value is not of type: ${params.type}`;
+      default:
+        if (error.dataPath) {
+          return `Invalid value at ${error.dataPath}: ${error.message}`;
+        }
+
+        return `Invalid value: ${error.message}`;
+    }
+  }
+}
+
 export class Property<T extends Any> {
   private device: Device;
 
@@ -53,6 +175,28 @@ export class Property<T extends Any> {
 
   private prevGetValue?: T;
 
+  private valueConstraints: Record<string, unknown> = {};
+
+  private validator?: ValidateFunction | null;
+
+  private converter?: PropertyConverter | null;
+
+  private comparator?: ValueComparator<Any> | null;
+
+  private notificationOptions: NotificationOptions = {};
+
+  private pollingOptions?: PollingOptions | null;
+
+  private optimisticWrites?: OptimisticWriteOptions | null;
+
+  private lastNotifiedValue?: T;
+
+  private lastNotifyTime = 0;
+
+  private throttleTimer?: NodeJS.Timeout | null;
+
+  private heartbeatTimer?: NodeJS.Timeout | null;
+
   constructor(device: Device, name: string, propertyDescr: PropertySchema) {
     this.device = device;
 
@@ -79,6 +223,12 @@ export class Property<T extends Any> {
     this.readOnly = propertyDescr.readOnly;
     this.multipleOf = propertyDescr.multipleOf;
     this.forms = propertyDescr.forms ?? [];
+
+    for (const keyword of VALUE_SCHEMA_KEYWORDS) {
+      if (propertyDescr.hasOwnProperty(keyword)) {
+        this.valueConstraints[keyword] = propertyDescr[keyword];
+      }
+    }
   }
 
   /**
@@ -137,15 +287,142 @@ export class Property<T extends Any> {
 
     // setCachedValue may change the value, therefore we have to check
     // this.value after the call to setCachedValue
-    const hasChanged = oldValue !== this.value;
+    const hasChanged = !this.isEqual(oldValue, this.value);
 
     if (hasChanged) {
-      this.device.notifyPropertyChanged(this);
+      this.scheduleNotification();
     }
 
     return hasChanged;
   }
 
+  /**
+   * Set a custom comparator, which replaces the default structural comparison
+   * of values.
+   */
+  setComparator(comparator: ValueComparator<T> | null): void {
+    this.comparator = <ValueComparator<Any> | null>comparator;
+  }
+
+  getComparator(): ValueComparator<Any> | null | undefined {
+    return this.comparator;
+  }
+
+  /**
+   * @returns true if both values are the same. Objects and arrays are compared
+   * structurally unless a custom comparator has been set.
+   */
+  isEqual(a: T | undefined, b: T | undefined): boolean {
+    if (this.comparator) {
+      return this.comparator(a, b);
+    }
+
+    return deepEqual(a, b);
+  }
+
+  getNotificationOptions(): NotificationOptions {
+    return this.notificationOptions;
+  }
+
+  /**
+   * Set the change thresholds and intervals which apply to notifications for
+   * this property.
+   */
+  setNotificationOptions(options: NotificationOptions): void {
+    this.notificationOptions = options;
+    this.restartHeartbeat();
+  }
+
+  /**
+   * Stop the throttle and heartbeat timers, e.g. when the device is removed.
+   * A pending throttled value is dropped.
+   */
+  stopNotifications(): void {
+    if (this.throttleTimer) {
+      clearTimeout(this.throttleTimer);
+      this.throttleTimer = null;
+    }
+
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private scheduleNotification(): void {
+    if (!this.exceedsChangeThreshold()) {
+      return;
+    }
+
+    if (this.throttleTimer) {
+      // The latest value goes out when the window closes.
+      return;
+    }
+
+    const minInterval = this.notificationOptions.minInterval ?? 0;
+    const elapsed = Date.now() - this.lastNotifyTime;
+
+    if (elapsed >= minInterval) {
+      this.sendNotification();
+      return;
+    }
+
+    this.throttleTimer = setTimeout(() => {
+      this.throttleTimer = null;
+      this.sendNotification();
+    }, minInterval - elapsed);
+
+    // Notifications alone shouldn't keep the add-on running.
+    this.throttleTimer.unref();
+  }
+
+  private exceedsChangeThreshold(): boolean {
+    const { changeThreshold, relativeChangeThreshold } = this.notificationOptions;
+    const last = this.lastNotifiedValue;
+    const value = this.value;
+
+    if (typeof last !== 'number' || typeof value !== 'number') {
+      return true;
+    }
+
+    const delta = Math.abs(value - last);
+
+    if (typeof changeThreshold === 'number' && delta < changeThreshold) {
+      return false;
+    }
+
+    if (typeof relativeChangeThreshold === 'number' && last !== 0) {
+      if (delta / Math.abs(last) < relativeChangeThreshold) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private sendNotification(): void {
+    this.lastNotifiedValue = this.value;
+    this.lastNotifyTime = Date.now();
+    this.device.notifyPropertyChanged(this);
+    this.restartHeartbeat();
+  }
+
+  private restartHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    const maxInterval = this.notificationOptions.maxInterval;
+    if (maxInterval && typeof this.value !== 'undefined') {
+      this.heartbeatTimer = setTimeout(() => {
+        this.heartbeatTimer = null;
+        this.sendNotification();
+      }, maxInterval);
+      this.heartbeatTimer.unref();
+    }
+  }
+
   getCachedValue(): T | undefined {
     return this.value;
   }
@@ -168,10 +445,21 @@ export class Property<T extends Any> {
    * @method getValue
    * @returns a promise which resolves to the retrieved value.
    *
-   * This implementation is a simple one that just returns
-   * the previously cached value.
+   * If the property is polled, the value is read from the device with the
+   * polling read function, and the cached value is updated and notified.
+   * Otherwise, the previously cached value is returned.
    */
   getValue(): Promise<T> {
+    const read = this.pollingOptions?.read;
+    if (read) {
+      return Promise.resolve()
+        .then(() => read())
+        .then((raw) => {
+          this.setRawCachedValueAndNotify(raw);
+          return <T>this.value;
+        });
+    }
+
     return new Promise((resolve) => {
       if (this.value != this.prevGetValue) {
         this.prevGetValue = this.value;
@@ -180,6 +468,156 @@ export class Property<T extends Any> {
     });
   }
 
+  getPollingOptions(): PollingOptions | null | undefined {
+    return this.pollingOptions;
+  }
+
+  /**
+   * Poll this property periodically with the given read function, or stop
+   * polling it when passed null. Polling is run by the device once it has been
+   * added to its adapter.
+   */
+  setPolling(options: PollingOptions | null): void {
+    this.pollingOptions = options;
+    this.device.updatePolling(this);
+  }
+
+  /**
+   * Set the converter between raw device values and property values.
+   */
+  setConverter(converter: PropertyConverter | null): void {
+    this.converter = converter;
+  }
+
+  getConverter(): PropertyConverter | null | undefined {
+    return this.converter;
+  }
+
+  /**
+   * Convert a raw device value to a property value.
+   */
+  fromDevice(raw: unknown): T {
+    return this.converter ? <T>this.converter.fromDevice(raw) : <T>raw;
+  }
+
+  /**
+   * Convert a property value to a raw device value.
+   */
+  toDevice(value: T): unknown {
+    return this.converter ? this.converter.toDevice(value) : value;
+  }
+
+  /**
+   * Converts a raw device value, then sets the value and notifies the device
+   * if the value has changed.
+   * @returns true if the value has changed
+   */
+  setRawCachedValueAndNotify(raw: unknown): boolean {
+    return this.setCachedValueAndNotify(this.fromDevice(raw));
+  }
+
+  /**
+   * Switch the property to another unit of the same quantity, e.g. from
+   * degree celsius to degree fahrenheit. Raw device values keep their unit,
+   * and minimum and maximum are converted.
+   */
+  convertUnit(unit: string): void {
+    const currentUnit = this.unit;
+    if (!currentUnit || currentUnit === unit) {
+      return;
+    }
+
+    const conversion = unitConverter(currentUnit, unit);
+    if (typeof this.minimum !== 'undefined') {
+      this.minimum = <number>conversion.fromDevice(this.minimum);
+    }
+
+    if (typeof this.maximum !== 'undefined') {
+      this.maximum = <number>conversion.fromDevice(this.maximum);
+    }
+
+    if (typeof this.value !== 'undefined') {
+      this.value = <T>conversion.fromDevice(this.value);
+    }
+
+    if (typeof this.multipleOf !== 'undefined') {
+      // The step scales with the unit. If the conversion also shifts the zero
+      // point, e.g. degree celsius to degree fahrenheit, converted values no
+      // longer fall on a grid of that step, so the constraint is dropped.
+      const zero = <number>conversion.fromDevice(0);
+      const step = Math.abs(<number>conversion.fromDevice(this.multipleOf) - zero);
+      const ratio = zero / step;
+      if (Math.abs(ratio - Math.round(ratio)) < 1e-9) {
+        this.multipleOf = step;
+      } else {
+        delete this.multipleOf;
+      }
+    }
+
+    this.converter = this.converter ? compose(this.converter, conversion) : conversion;
+    this.unit = unit;
+    this.validator = null;
+  }
+
+  /**
+   * @returns true if convertUnit() can switch the property to the given unit.
+   * Kelvin is also used for color temperatures, so properties are only
+   * converted from or to kelvin if their @type says they hold a temperature.
+   */
+  canConvertTo(unit: string): boolean {
+    if (!this.unit || !canConvertUnit(this.unit, unit)) {
+      return false;
+    }
+
+    if (this.unit === 'kelvin' || unit === 'kelvin') {
+      return TEMPERATURE_PROPERTY_TYPES.includes(this['@type'] ?? '');
+    }
+
+    return true;
+  }
+
+  /**
+   * Switch the property to the temperature unit the user prefers in the
+   * gateway, if it is a temperature property.
+   *
+   * This is opt-in: it is not called automatically, as values then no longer
+   * come in the unit the device uses. Adapters which want it call it for
+   * their properties before adding the device.
+   */
+  usePreferredUnits(): void {
+    const preferred = this.device.getAdapter().getPreferences()?.units?.temperature;
+    if (preferred && this.canConvertTo(preferred)) {
+      this.convertUnit(preferred);
+    }
+  }
+
+  getOptimisticWrites(): OptimisticWriteOptions | null | undefined {
+    return this.optimisticWrites;
+  }
+
+  /**
+   * Enable optimistic writes, or disable them when passed null.
+   *
+   * With optimistic writes, setValue() updates the cached value and notifies
+   * before writeToDevice() has completed. If the write fails or times out, the
+   * previous value is restored and notified again, unless there was none.
+   */
+  setOptimisticWrites(options: OptimisticWriteOptions | null): void {
+    this.optimisticWrites = options;
+  }
+
+  /**
+   * @method writeToDevice
+   * @returns a promise which resolves once the value has been written.
+   *
+   * Called by setValue() with the raw device value, after the value has been
+   * validated. Drivers override this instead of setValue() when they want
+   * validation and conversion to be done for them.
+   */
+  writeToDevice(_rawValue: unknown, _value: T): Promise<void> {
+    return Promise.resolve();
+  }
+
   /**
    * @method setValue
    * @returns a promise which resolves to the updated value.
@@ -193,40 +631,135 @@ export class Property<T extends Any> {
   setValue(value: T): Promise<T> {
     return new Promise((resolve, reject) => {
       if (this.readOnly) {
-        reject('Read-only property');
+        reject(
+          new PropertyValueError(this.name, {
+            keyword: 'readOnly',
+            dataPath: '',
+            schemaPath: '#/readOnly',
+            params: {},
+          })
+        );
         return;
       }
 
-      const numberValue = <number>(<unknown>value);
-
-      if (typeof this.minimum !== 'undefined' && numberValue < this.minimum) {
-        reject(`Value less than minimum: ${this.minimum}`);
+      let coerced: T;
+      try {
+        coerced = this.validateValue(value);
+      } catch (err) {
+        reject(err);
         return;
       }
 
-      if (typeof this.maximum !== 'undefined' && numberValue > this.maximum) {
-        reject(`Value greater than maximum: ${this.maximum}`);
+      const rawValue = this.toDevice(coerced);
+
+      if (!this.optimisticWrites) {
+        this.writeToDevice(rawValue, coerced)
+          .then(() => {
+            this.setCachedValueAndNotify(coerced);
+            resolve(<T>this.value);
+          })
+          .catch(reject);
         return;
       }
 
-      if (
-        typeof this.multipleOf !== 'undefined' &&
-        numberValue / this.multipleOf - Math.round(numberValue / this.multipleOf) !== 0
-      ) {
-        // note that we don't use the modulus operator here because it's
-        // unreliable for floating point numbers
-        reject(`Value is not a multiple of: ${this.multipleOf}`);
-        return;
+      const previous = this.value;
+      this.setCachedValueAndNotify(coerced);
+      const optimistic = this.value;
+
+      this.writeWithTimeout(rawValue, coerced, this.optimisticWrites)
+        .then(() => resolve(<T>this.value))
+        .catch((err) => {
+          // Only roll back if nothing else, e.g. a report from the device,
+          // has updated the value in the meantime. Without a previous value
+          // there is nothing the gateway could be told to go back to.
+          if (typeof previous !== 'undefined' && this.isEqual(this.value, optimistic)) {
+            this.setCachedValueAndNotify(<T>previous);
+          }
+
+          reject(err);
+        });
+    });
+  }
+
+  private writeWithTimeout(
+    rawValue: unknown,
+    value: T,
+    options: OptimisticWriteOptions
+  ): Promise<void> {
+    const timeout = options.timeout ?? DEFAULT_OPTIMISTIC_WRITE_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Timed out writing property ${this.name} after ${timeout} ms`));
+      }, timeout);
+
+      this.writeToDevice(rawValue, value)
+        .then(resolve, reject)
+        .finally(() => clearTimeout(timer));
+    });
+  }
+
+  /**
+   * Check a value against the property description.
+   *
+   * @returns the value, coerced to the property type where that is safe.
+   * @throws {PropertyValueError} if the value is invalid.
+   */
+  validateValue(value: T): T {
+    if (!this.validator) {
+      const schema: Record<string, unknown> = Object.assign({}, this.valueConstraints, {
+        type: this.type,
+        minimum: this.minimum,
+        maximum: this.maximum,
+        multipleOf: this.multipleOf,
+      });
+
+      if (this.enum && this.enum.length > 0) {
+        schema.enum = this.enum;
       }
 
-      if (this.enum && this.enum.length > 0 && !this.enum.includes(`${value}`)) {
-        reject('Invalid enum value');
-        return;
+      for (const keyword of Object.keys(schema)) {
+        if (typeof schema[keyword] === 'undefined') {
+          delete schema[keyword];
+        }
       }
 
-      this.setCachedValueAndNotify(value);
-      resolve(<T>this.value);
-    });
+      this.validator = ajv.compile(schema);
+    }
+
+    const coerced = this.coerceValue(value);
+    if (!this.validator(coerced)) {
+      throw new PropertyValueError(this.name, this.validator.errors![0]);
+    }
+
+    return coerced;
+  }
+
+  /**
+   * Convert strings which hold a number or boolean to the property type, e.g.
+   * "12" for a number property. Only lossless conversions are made; anything
+   * else is left for validation to reject.
+   */
+  private coerceValue(value: T): T {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    switch (this.type) {
+      case 'number':
+      case 'integer':
+        if (DECIMAL_PATTERN.test(value)) {
+          return <T>(<unknown>Number(value));
+        }
+        break;
+      case 'boolean':
+        if (value === 'true' || value === 'false') {
+          return <T>(<unknown>(value === 'true'));
+        }
+        break;
+    }
+
+    return value;
   }
 
   getDevice(): Device {
@@ -255,6 +788,7 @@ export class Property<T extends Any> {
 
   setType(value: PropertyValueType): void {
     this.type = value;
+    this.validator = null;
   }
 
   getAtType(): string | undefined {
@@ -287,6 +821,7 @@ export class Property<T extends Any> {
 
   setMinimum(value: number): void {
     this.minimum = value;
+    this.validator = null;
   }
 
   getMaximum(): number | undefined {
@@ -295,6 +830,7 @@ export class Property<T extends Any> {
 
   setMaximum(value: number): void {
     this.maximum = value;
+    this.validator = null;
   }
 
   getEnum(): Any[] | undefined {
@@ -303,6 +839,7 @@ export class Property<T extends Any> {
 
   setEnum(value: Any[]): void {
     this.enum = value;
+    this.validator = null;
   }
 
   getReadOnly(): boolean | undefined {
@@ -319,6 +856,7 @@ export class Property<T extends Any> {
 
   setMultipleOf(value: number): void {
     this.multipleOf = value;
+    this.validator = null;
   }
 
   getForms(): PropertyForm[] {
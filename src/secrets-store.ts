@@ -0,0 +1,186 @@
+/**
+ * Secrets stores.
+ *
+ * Storage for device credentials and other secrets, which must not end up in
+ * logs or in the plain add-on configuration.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface SecretsStore {
+  /**
+   * @returns a promise which resolves to the secret, or null if there is none.
+   */
+  get(key: string): Promise<string | null>;
+
+  set(key: string, value: string): Promise<void>;
+
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps secrets in memory only, e.g. when no data directory is available.
+ */
+export class MemorySecretsStore implements SecretsStore {
+  private secrets = new Map<string, string>();
+
+  get(key: string): Promise<string | null> {
+    return Promise.resolve(this.secrets.get(key) ?? null);
+  }
+
+  set(key: string, value: string): Promise<void> {
+    this.secrets.set(key, value);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.secrets.delete(key);
+    return Promise.resolve();
+  }
+}
+
+interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const CIPHER = 'aes-256-gcm';
+
+/**
+ * Keeps secrets in a file, encrypted with AES-256-GCM. The key is generated on
+ * first use and stored next to it. Both files are only readable by the owner.
+ */
+export class FileSecretsStore implements SecretsStore {
+  private dir: string;
+
+  private secretsPath: string;
+
+  private keyPath: string;
+
+  private key?: Buffer | null;
+
+  // Serializes reads and writes of the secrets file.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param {string} dir - Directory for the secrets and key files
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+    this.secretsPath = path.join(dir, 'secrets.json');
+    this.keyPath = path.join(dir, 'secrets.key');
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.enqueue(() =>
+      this.load().then((secrets) => {
+        const secret = secrets[key];
+        return secret ? this.decrypt(secret) : null;
+      })
+    );
+  }
+
+  set(key: string, value: string): Promise<void> {
+    return this.enqueue(() =>
+      this.load().then((secrets) => {
+        secrets[key] = this.encrypt(value);
+        return this.save(secrets);
+      })
+    );
+  }
+
+  delete(key: string): Promise<void> {
+    return this.enqueue(() =>
+      this.load().then((secrets) => {
+        if (!secrets.hasOwnProperty(key)) {
+          return Promise.resolve();
+        }
+
+        delete secrets[key];
+        return this.save(secrets);
+      })
+    );
+  }
+
+  private enqueue<R>(operation: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(() => this.loadKey()).then(operation);
+    this.queue = result.catch(() => {
+      // Keep the queue going after a failed operation.
+    });
+    return result;
+  }
+
+  private loadKey(): Promise<void> {
+    if (this.key) {
+      return Promise.resolve();
+    }
+
+    return fs.promises
+      .mkdir(this.dir, { recursive: true, mode: 0o700 })
+      .then(() => fs.promises.readFile(this.keyPath))
+      .catch((e) => {
+        if (e.code !== 'ENOENT') {
+          throw e;
+        }
+
+        const key = crypto.randomBytes(32);
+        return fs.promises.writeFile(this.keyPath, key, { mode: 0o600 }).then(() => key);
+      })
+      .then((key) => {
+        this.key = key;
+      });
+  }
+
+  private load(): Promise<Record<string, EncryptedSecret>> {
+    return fs.promises
+      .readFile(this.secretsPath, 'utf8')
+      .then((text) => <Record<string, EncryptedSecret>>JSON.parse(text))
+      .catch((e) => {
+        if (e.code === 'ENOENT') {
+          return {};
+        }
+
+        throw e;
+      });
+  }
+
+  private save(secrets: Record<string, EncryptedSecret>): Promise<void> {
+    // Write to a temporary file first, so that a crash can't leave a
+    // truncated secrets file behind.
+    const tmpPath = `${this.secretsPath}.tmp`;
+    return fs.promises
+      .writeFile(tmpPath, JSON.stringify(secrets), { mode: 0o600 })
+      .then(() => fs.promises.rename(tmpPath, this.secretsPath));
+  }
+
+  private encrypt(value: string): EncryptedSecret {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, <Buffer>this.key, iv);
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  private decrypt(secret: EncryptedSecret): string {
+    const decipher = crypto.createDecipheriv(
+      CIPHER,
+      <Buffer>this.key,
+      Buffer.from(secret.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(secret.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
@@ -98,3 +98,64 @@ export function timestamp(): string {
   const date = new Date().toISOString();
   return date.replace(/\.\d{3}Z/, '+00:00');
 }
+
+/**
+ * Compare two JSON-like values structurally. Objects are equal if they have
+ * the same keys with equal values, arrays if they have equal elements in the
+ * same order.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    // NaN is the only value which is not equal to itself.
+    return Number.isNaN(a) && Number.isNaN(b);
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, idx) => deepEqual(value, b[idx]));
+  }
+
+  const aObj = <Record<string, unknown>>a;
+  const bObj = <Record<string, unknown>>b;
+  const keys = Object.keys(aObj);
+  if (keys.length !== Object.keys(bObj).length) {
+    return false;
+  }
+
+  return keys.every((key) => bObj.hasOwnProperty(key) && deepEqual(aObj[key], bObj[key]));
+}
+
+const SECRET_FIELDS = ['password', 'pin'];
+
+/**
+ * Mask the secrets, such as passwords and PINs, in the data of a message, so
+ * that it can be logged.
+ *
+ * @returns a copy of the message, or the message itself if it holds no
+ *          secrets.
+ */
+export function redactMessage<T>(msg: T): T {
+  const data = (<{ data?: unknown }>(<unknown>msg))?.data;
+  if (typeof data !== 'object' || data === null) {
+    return msg;
+  }
+
+  const secrets = SECRET_FIELDS.filter((field) => data.hasOwnProperty(field));
+  if (secrets.length === 0) {
+    return msg;
+  }
+
+  const redacted: Record<string, unknown> = { ...data };
+  for (const field of secrets) {
+    redacted[field] = '********';
+  }
+
+  return { ...msg, data: redacted };
+}
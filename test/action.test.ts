@@ -0,0 +1,65 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Action } from '../src/action';
+import { Adapter } from '../src/adapter';
+import { Device } from '../src/device';
+import { createStubManager } from './helpers';
+
+describe('Action', () => {
+  let device: Device;
+  let sent: string[];
+
+  beforeEach(() => {
+    const manager = createStubManager();
+    manager.sendActionStatusNotification.mockImplementation((action: Action) =>
+      sent.push(action.getStatus())
+    );
+    device = new Device(new Adapter(manager, 'test-adapter', 'test-plugin'), 'device-1');
+    device.addAction('measure', { output: { type: 'number' } });
+    sent = [];
+  });
+
+  it('reports each state change', () => {
+    const action = new Action('action-1', device, 'measure');
+    action.start();
+    action.finish(42);
+
+    expect(sent).toEqual(['pending', 'completed']);
+    expect(action.getOutput()).toBe(42);
+  });
+
+  it('ignores finish() once the action has been cancelled', () => {
+    const action = new Action('action-1', device, 'measure');
+    action.start();
+    action.cancel();
+    action.finish(42);
+
+    expect(action.getStatus()).toBe('cancelled');
+    expect(action.getOutput()).toBeUndefined();
+    expect(sent).toEqual(['pending', 'cancelled']);
+  });
+
+  it('ignores a second finish()', () => {
+    const action = new Action('action-1', device, 'measure');
+    action.start();
+    action.finish(1);
+    action.finish(2);
+
+    expect(action.getOutput()).toBe(1);
+    expect(sent).toEqual(['pending', 'completed']);
+  });
+
+  it('ignores fail() once the action has completed', () => {
+    const action = new Action('action-1', device, 'measure');
+    action.start();
+    action.finish(1);
+    action.fail(new Error('Too late'));
+
+    expect(action.getStatus()).toBe('completed');
+    expect(action.getError()).toBeUndefined();
+  });
+});
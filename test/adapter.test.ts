@@ -0,0 +1,260 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Database as SQLiteDatabase } from 'sqlite3';
+import { Adapter } from '../src/adapter';
+import { Database } from '../src/database';
+import { Device } from '../src/device';
+import { OnOffSwitchDevice } from '../src/device-templates';
+import { PairingFlowOptions } from '../src/pairing-flow';
+import { DeviceWithoutId } from '../src/schema';
+import { createStubManager, StubManager, useFakeGateway } from './helpers';
+
+/**
+ * Create an empty database with the gateway's settings table.
+ *
+ * @returns a promise which resolves to the path of the database.
+ */
+function createDatabaseFile(): Promise<string> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gateway-addon-'));
+  const file = path.join(dir, 'db.sqlite3');
+
+  return new Promise((resolve, reject) => {
+    const db = new SQLiteDatabase(file, (err) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      db.run('CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT)', (err) => {
+        db.close();
+        if (err) {
+          reject(err);
+        } else {
+          resolve(file);
+        }
+      });
+    });
+  });
+}
+
+class AddressAdapter extends Adapter {
+  public addresses: Record<string, string> = {};
+
+  getConnectionData(device: Device): Record<string, unknown> {
+    return { address: this.addresses[device.getId()] };
+  }
+}
+
+describe('Adapter', () => {
+  const context = useFakeGateway();
+  let adapter: Adapter;
+
+  beforeEach(() => {
+    adapter = new Adapter(context.manager, 'test-adapter', 'test-plugin');
+    context.manager.addAdapter(adapter);
+  });
+
+  describe('handleDeviceSaved', () => {
+    const saved: DeviceWithoutId = {
+      title: 'Hall light',
+      '@type': ['Light'],
+      properties: {
+        on: { type: 'boolean', title: 'Power' },
+      },
+    };
+
+    it('merges the user edits into a device which has been added', () => {
+      const device = new OnOffSwitchDevice(adapter, 'switch-1');
+      adapter.handleDeviceAdded(device);
+
+      const onEdited = jest.fn();
+      adapter.on('deviceEdited', onEdited);
+      adapter.handleDeviceSaved('switch-1', saved);
+
+      expect(device.getTitle()).toBe('Hall light');
+      expect(device.getOnProperty().getTitle()).toBe('Power');
+      expect(onEdited).toHaveBeenCalledWith(device, {
+        title: 'Hall light',
+        properties: { on: { title: 'Power' } },
+      });
+    });
+
+    it('merges the user edits into a device added later', () => {
+      const onEdited = jest.fn();
+      adapter.on('deviceEdited', onEdited);
+      adapter.handleDeviceSaved('switch-1', saved);
+      expect(onEdited).not.toHaveBeenCalled();
+
+      const device = new OnOffSwitchDevice(adapter, 'switch-1');
+      adapter.handleDeviceAdded(device);
+
+      expect(device.getTitle()).toBe('Hall light');
+      expect(onEdited).toHaveBeenCalledWith(
+        device,
+        expect.objectContaining({ title: 'Hall light' })
+      );
+    });
+
+    it('keeps the @type list of the adapter', () => {
+      const device = new OnOffSwitchDevice(adapter, 'switch-1');
+      adapter.handleDeviceAdded(device);
+      adapter.handleDeviceSaved('switch-1', saved);
+
+      expect(device.getTypes()).toEqual(['OnOffSwitch']);
+    });
+  });
+
+  describe('setPin', () => {
+    let device: Device;
+    let verifyPin: jest.SpyInstance;
+
+    beforeEach(() => {
+      device = new Device(adapter, 'device-1');
+      device.setPinRequired(true);
+      device.setPinPattern('[0-9]{4}');
+      adapter.handleDeviceAdded(device);
+      verifyPin = jest
+        .spyOn(adapter, 'verifyPin')
+        .mockImplementation((_device, pin) =>
+          pin === '1234' ? Promise.resolve() : Promise.reject(new Error('Wrong PIN'))
+        );
+    });
+
+    it('accepts a PIN matching the pattern', () => {
+      return adapter.setPin('device-1', '1234').then(() => {
+        expect(verifyPin).toHaveBeenCalledWith(device, '1234');
+      });
+    });
+
+    it('matches the pattern against the whole PIN', () => {
+      return expect(adapter.setPin('device-1', 'x12345')).rejects.toMatchObject({
+        reason: 'invalid-pin',
+      });
+    });
+
+    it('rejects if the pattern is invalid', () => {
+      device.setPinPattern('[0-9');
+      return expect(adapter.setPin('device-1', '1234')).rejects.toBeInstanceOf(SyntaxError);
+    });
+
+    it('gives the attempts back when a new pairing session starts', () => {
+      const options: PairingFlowOptions = { steps: ['pin'], maxAttempts: 1 };
+      adapter.setPairingFlow('device-1', options);
+
+      return expect(adapter.setPin('device-1', '0000'))
+        .rejects.toMatchObject({ reason: 'too-many-attempts' })
+        .then(() =>
+          expect(adapter.setPin('device-1', '1234')).rejects.toMatchObject({
+            reason: 'too-many-attempts',
+          })
+        )
+        .then(() => {
+          adapter.startPairingSession(60);
+          adapter.cancelPairing();
+          return adapter.setPin('device-1', '1234');
+        });
+    });
+  });
+
+  describe('enableDeviceRegistry', () => {
+    const saved: DeviceWithoutId = {
+      title: 'Hall light',
+      properties: {
+        on: { type: 'boolean' },
+      },
+    };
+    let file: string;
+    const databases: Database[] = [];
+
+    function openDatabase(): Database {
+      const database = new Database('test-plugin', file);
+      databases.push(database);
+      return database;
+    }
+
+    function createAdapter(): { adapter: AddressAdapter; manager: StubManager } {
+      const manager = createStubManager();
+      return { adapter: new AddressAdapter(manager, 'test-adapter', 'test-plugin'), manager };
+    }
+
+    beforeEach(() => {
+      return createDatabaseFile().then((dbFile) => {
+        file = dbFile;
+      });
+    });
+
+    afterEach(() => {
+      databases.splice(0).forEach((database) => database.close());
+      fs.unlinkSync(file);
+      fs.rmdirSync(path.dirname(file));
+    });
+
+    it('restores stored devices as disconnected', () => {
+      const first = createAdapter().adapter;
+      const device = new OnOffSwitchDevice(first, 'switch-1');
+      first.addresses['switch-1'] = '10.0.0.1';
+
+      return first
+        .enableDeviceRegistry(openDatabase())
+        .then(() => {
+          first.handleDeviceAdded(device);
+          first.handleDeviceSaved('switch-1', saved);
+
+          // The driver found the device at a new address.
+          first.addresses['switch-1'] = '10.0.0.2';
+          return first.saveDevice(device);
+        })
+        .then(() => {
+          const { adapter, manager } = createAdapter();
+          return adapter.enableDeviceRegistry(openDatabase()).then((restored) => {
+            expect(restored).toHaveLength(1);
+            expect(restored[0].getId()).toBe('switch-1');
+            expect(restored[0].getTitle()).toBe('Hall light');
+            expect(restored[0].isConnected()).toBe(false);
+            expect(adapter.getDevice('switch-1')).toBe(restored[0]);
+            expect(manager.sendConnectedNotification).toHaveBeenCalledWith(restored[0], false);
+            return adapter.getDeviceRegistry()!.load();
+          });
+        })
+        .then((records) => {
+          expect(records['switch-1'].connection).toEqual({ address: '10.0.0.2' });
+        });
+    });
+
+    it('stores devices which were saved before the database was opened', () => {
+      const { adapter } = createAdapter();
+      adapter.handleDeviceSaved('switch-1', saved);
+
+      return adapter
+        .enableDeviceRegistry(openDatabase())
+        .then(() => adapter.getDeviceRegistry()!.load())
+        .then((records) => {
+          expect(Object.keys(records)).toEqual(['switch-1']);
+          expect(records['switch-1'].description).toEqual(saved);
+        });
+    });
+
+    it('does not store devices which have not been saved', () => {
+      const { adapter } = createAdapter();
+      const device = new OnOffSwitchDevice(adapter, 'switch-1');
+
+      return adapter
+        .enableDeviceRegistry(openDatabase())
+        .then(() => {
+          adapter.handleDeviceAdded(device);
+          return adapter.saveDevice(device);
+        })
+        .then(() => adapter.getDeviceRegistry()!.load())
+        .then((records) => {
+          expect(records).toEqual({});
+        });
+    });
+  });
+});
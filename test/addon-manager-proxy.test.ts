@@ -0,0 +1,91 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { AddonManagerProxy } from '../src/addon-manager-proxy';
+import { FakeGateway } from '../src/fake-gateway';
+import { DispatchError } from '../src/message-dispatcher';
+import { MessageType } from '../src/message-type';
+import { PluginClient } from '../src/plugin-client';
+import { Message } from '../src/schema';
+import { useFakeGateway } from './helpers';
+
+const NEW_MESSAGE_TYPE = 65000;
+
+describe('AddonManagerProxy', () => {
+  function waitForDispatch(
+    manager: AddonManagerProxy
+  ): Promise<{ msg: Message; err: DispatchError | null }> {
+    const onMsg = manager.onMsg.bind(manager);
+    return new Promise((resolve) => {
+      jest.spyOn(manager, 'onMsg').mockImplementationOnce((msg) => {
+        const err = onMsg(msg);
+        resolve({ msg, err });
+        return err;
+      });
+    });
+  }
+
+  describe('getMessageDispatcher', () => {
+    const context = useFakeGateway();
+    let gateway: FakeGateway;
+    let pluginClient: PluginClient;
+    let manager: AddonManagerProxy;
+
+    beforeEach(() => {
+      ({ gateway, pluginClient, manager } = context);
+    });
+
+    it('drops messages of types unknown to the schemas as invalid', () => {
+      const handler = jest.fn();
+      manager.getMessageDispatcher().register(NEW_MESSAGE_TYPE, handler);
+      const onMsg = jest.spyOn(manager, 'onMsg');
+
+      gateway.sendMessage(MessageType.DEVICE_SET_PROPERTY_COMMAND, { deviceId: 42 });
+      gateway.sendMessage(NEW_MESSAGE_TYPE, { value: 42 });
+
+      return new Promise((resolve) => setTimeout(resolve, 100)).then(() => {
+        expect(onMsg).not.toHaveBeenCalled();
+        expect(handler).not.toHaveBeenCalled();
+        expect(pluginClient.getValidationFailures()).toEqual({
+          [MessageType.DEVICE_SET_PROPERTY_COMMAND]: 1,
+          [NEW_MESSAGE_TYPE]: 1,
+        });
+      });
+    });
+  });
+
+  describe('with the dispatch policy', () => {
+    const context = useFakeGateway({ invalidMessagePolicy: 'dispatch' });
+
+    it('passes message types unknown to the schemas to registered handlers', () => {
+      const { gateway, pluginClient, manager } = context;
+      const handler = jest.fn();
+      manager.getMessageDispatcher().register(NEW_MESSAGE_TYPE, handler);
+      const dispatched = waitForDispatch(manager);
+
+      gateway.sendMessage(NEW_MESSAGE_TYPE, { value: 42 });
+
+      return dispatched.then(({ err }) => {
+        expect(err).toBeNull();
+        expect(handler).toHaveBeenCalledWith(
+          expect.objectContaining({ messageType: NEW_MESSAGE_TYPE, data: expect.anything() })
+        );
+        expect(pluginClient.getValidationFailures()).toEqual({ [NEW_MESSAGE_TYPE]: 1 });
+      });
+    });
+
+    it('reports message types without a handler as unhandled', () => {
+      const { gateway, manager } = context;
+      const dispatched = waitForDispatch(manager);
+
+      gateway.sendMessage(NEW_MESSAGE_TYPE, { value: 42 });
+
+      return dispatched.then(({ err }) => {
+        expect(err).toMatchObject({ messageType: NEW_MESSAGE_TYPE, reason: 'unhandled' });
+      });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Adapter } from '../src/adapter';
+import { checkCapabilities, checkPropertyType } from '../src/capabilities';
+import { OnOffSwitchDevice } from '../src/device-templates';
+import { createStubManager } from './helpers';
+
+describe('capabilities', () => {
+  describe('checkCapabilities', () => {
+    it('accepts devices which match the catalogue', () => {
+      expect(
+        checkCapabilities(
+          ['Light', 'OnOffSwitch'],
+          [{ name: 'on', '@type': 'OnOffProperty', type: 'boolean' }]
+        )
+      ).toEqual([]);
+    });
+
+    it('reports capabilities which are missing a property', () => {
+      expect(
+        checkCapabilities(
+          ['Thermostat'],
+          [{ name: 't', '@type': 'TemperatureProperty', type: 'number' }]
+        )
+      ).toEqual([
+        expect.objectContaining({ kind: 'missing-property', capability: 'Thermostat' }),
+        expect.objectContaining({ kind: 'missing-property', capability: 'Thermostat' }),
+      ]);
+    });
+
+    it('reports names inherited from Object as unknown', () => {
+      const problems = checkCapabilities(
+        ['constructor', 'toString', '__proto__'],
+        [{ name: 'x', '@type': 'hasOwnProperty', type: 'boolean' }]
+      );
+
+      expect(problems.map((problem) => problem.kind)).toEqual([
+        'unknown-capability',
+        'unknown-capability',
+        'unknown-capability',
+        'unknown-property-type',
+      ]);
+    });
+  });
+
+  describe('checkPropertyType', () => {
+    it('reports the wrong value type and unit', () => {
+      expect(
+        checkPropertyType({
+          name: 'brightness',
+          '@type': 'BrightnessProperty',
+          type: 'boolean',
+          unit: 'lux',
+        })
+      ).toEqual([
+        expect.objectContaining({ kind: 'wrong-value-type', propertyName: 'brightness' }),
+        expect.objectContaining({ kind: 'wrong-unit', propertyName: 'brightness' }),
+      ]);
+    });
+
+    it('ignores properties without @type', () => {
+      expect(checkPropertyType({ name: 'x', type: 'string' })).toEqual([]);
+    });
+  });
+
+  describe('Adapter.handleDeviceAdded', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => {
+        // pass
+      });
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    function addInvalidDevice(verbose: boolean): void {
+      const adapter = new Adapter(createStubManager(), 'test-adapter', 'test-plugin', { verbose });
+      const device = new OnOffSwitchDevice(adapter, 'switch-1');
+      device['@type'].push('toString');
+      adapter.handleDeviceAdded(device);
+    }
+
+    it('logs capability problems in verbose mode', () => {
+      addInvalidDevice(true);
+      expect(warn).toHaveBeenCalledWith(
+        'Adapter:',
+        'Adapter',
+        'device',
+        'switch-1',
+        'Unknown capability toString'
+      );
+    });
+
+    it('does not log capability problems otherwise', () => {
+      addInvalidDevice(false);
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Adapter } from '../src/adapter';
+import { Device } from '../src/device';
+import {
+  DeviceDescriptionError,
+  loadDeviceDescription,
+  parseDeviceDescription,
+} from '../src/device-description';
+import { DeviceWithoutId } from '../src/schema';
+import { createStubAdapter } from './helpers';
+
+const LAMP: DeviceWithoutId = {
+  '@context': 'https://webthings.io/schemas',
+  '@type': ['Light', 'OnOffSwitch'],
+  title: 'Lamp',
+  description: 'A dimmable lamp',
+  properties: {
+    on: { '@type': 'OnOffProperty', type: 'boolean', value: true },
+    level: { '@type': 'BrightnessProperty', type: 'integer', minimum: 0, maximum: 100 },
+  },
+  actions: {
+    fade: { input: { type: 'object', properties: { level: { type: 'integer' } } } },
+  },
+  events: {
+    overheated: { type: 'number', unit: 'degree celsius' },
+  },
+  pin: { required: true, pattern: '^\\d{4}$' },
+};
+
+const LAMP_YAML = `
+'@type': [Light, OnOffSwitch]
+title: Lamp
+properties:
+  on:
+    '@type': OnOffProperty
+    type: boolean
+    value: true
+`;
+
+describe('device descriptions', () => {
+  let adapter: Adapter;
+  let dir: string;
+
+  beforeEach(() => {
+    adapter = createStubAdapter();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gateway-addon-'));
+  });
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(dir)) {
+      fs.unlinkSync(path.join(dir, file));
+    }
+    fs.rmdirSync(dir);
+  });
+
+  function writeFile(name: string, text: string): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, text);
+    return file;
+  }
+
+  describe('parseDeviceDescription', () => {
+    it('parses JSON', () => {
+      expect(parseDeviceDescription(JSON.stringify(LAMP), 'json')).toEqual(LAMP);
+    });
+
+    it('parses YAML', () => {
+      expect(parseDeviceDescription(LAMP_YAML, 'yaml')).toEqual({
+        '@type': ['Light', 'OnOffSwitch'],
+        title: 'Lamp',
+        properties: { on: { '@type': 'OnOffProperty', type: 'boolean', value: true } },
+      });
+    });
+
+    it('rejects descriptions which do not match the schema', () => {
+      const text = JSON.stringify({ title: 'Lamp', properties: { on: { type: 'switch' } } });
+
+      expect(() => parseDeviceDescription(text, 'json', 'lamp.json')).toThrow(
+        DeviceDescriptionError
+      );
+      expect(() => parseDeviceDescription(text, 'json', 'lamp.json')).toThrow(
+        /^Invalid device description in lamp\.json: "\/properties\/on\/type"/
+      );
+    });
+  });
+
+  describe('loadDeviceDescription', () => {
+    it('loads .json, .yaml and .yml files', () => {
+      return Promise.all([
+        loadDeviceDescription(writeFile('lamp.json', JSON.stringify(LAMP))),
+        loadDeviceDescription(writeFile('lamp.yaml', LAMP_YAML)),
+        loadDeviceDescription(writeFile('lamp.YML', LAMP_YAML)),
+      ]).then(([json, yaml, yml]) => {
+        expect(json).toEqual(LAMP);
+        expect(yaml.title).toBe('Lamp');
+        expect(yml).toEqual(yaml);
+      });
+    });
+
+    it('rejects other files', () => {
+      return expect(loadDeviceDescription(writeFile('lamp.txt', LAMP_YAML))).rejects.toThrow(
+        'Unsupported device description file'
+      );
+    });
+
+    it('names the file in validation errors', () => {
+      const file = writeFile('lamp.yaml', 'title: 42');
+      return expect(loadDeviceDescription(file)).rejects.toThrow(
+        `Invalid device description in ${file}`
+      );
+    });
+  });
+
+  describe('Device.fromDescription', () => {
+    it('builds a device from the description', () => {
+      const device = Device.fromDescription(adapter, 'lamp-1', LAMP);
+
+      expect(device.getId()).toBe('lamp-1');
+      expect(device.getTypes()).toEqual(['Light', 'OnOffSwitch']);
+      expect(device.getTitle()).toBe('Lamp');
+      expect(device.getDescription()).toBe('A dimmable lamp');
+      expect(device.getPinRequired()).toBe(true);
+      expect(device.getPinPattern()).toBe('^\\d{4}$');
+
+      expect(device.findProperty('on')?.getCachedValue()).toBe(true);
+      expect(device.findProperty('level')?.getMaximum()).toBe(100);
+
+      const dict = device.asDict();
+      expect(Object.keys(dict.actions ?? {})).toEqual(['fade']);
+      expect(Object.keys(dict.events ?? {})).toEqual(['overheated']);
+    });
+
+    it('ignores the id in the description', () => {
+      const description = <DeviceWithoutId>Object.assign({ id: 'other' }, LAMP);
+      expect(Device.fromDescription(adapter, 'lamp-1', description).getId()).toBe('lamp-1');
+    });
+
+    it('creates instances of the class it is called on', () => {
+      class Lamp extends Device {}
+      expect(Lamp.fromDescription(adapter, 'lamp-1', LAMP)).toBeInstanceOf(Lamp);
+    });
+
+    it('rejects invalid descriptions', () => {
+      const description = <DeviceWithoutId>(<unknown>{ properties: { on: { type: 'switch' } } });
+      expect(() => Device.fromDescription(adapter, 'lamp-1', description)).toThrow(
+        /^Invalid device description in device lamp-1/
+      );
+    });
+  });
+
+  describe('Device.fromFile', () => {
+    it('builds a device from a YAML file', () => {
+      return Device.fromFile(adapter, 'lamp-1', writeFile('lamp.yaml', LAMP_YAML)).then(
+        (device) => {
+          expect(device.getTitle()).toBe('Lamp');
+          expect(device.findProperty('on')?.getCachedValue()).toBe(true);
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Adapter } from '../src/adapter';
+import {
+  ColorLightDevice,
+  DimmableLightDevice,
+  DoorSensorDevice,
+  MotionSensorDevice,
+  OnOffSwitchDevice,
+  SmartPlugDevice,
+  TemplateDevice,
+  ThermostatDevice,
+} from '../src/device-templates';
+import { PropertyValueError } from '../src/property';
+import { createStubAdapter } from './helpers';
+
+describe('device templates', () => {
+  let adapter: Adapter;
+
+  beforeEach(() => {
+    adapter = createStubAdapter();
+  });
+
+  function propertyNames(device: TemplateDevice): string[] {
+    return Object.keys(device.getPropertyDescriptions());
+  }
+
+  it('builds devices which match their capabilities', () => {
+    const devices: TemplateDevice[] = [
+      new OnOffSwitchDevice(adapter, 'switch'),
+      new DimmableLightDevice(adapter, 'dimmable'),
+      new ColorLightDevice(adapter, 'color', {
+        colorTemperature: { minimum: 2700, maximum: 6500 },
+      }),
+      new ThermostatDevice(adapter, 'thermostat'),
+      new MotionSensorDevice(adapter, 'motion'),
+      new DoorSensorDevice(adapter, 'door'),
+      new SmartPlugDevice(adapter, 'plug'),
+    ];
+
+    for (const device of devices) {
+      expect(device.validateCapabilities()).toEqual([]);
+    }
+  });
+
+  it('sets the title', () => {
+    expect(new MotionSensorDevice(adapter, 'motion', { title: 'Hallway' }).getTitle()).toBe(
+      'Hallway'
+    );
+  });
+
+  it('passes validated values to writeProperty', () => {
+    const device = new DimmableLightDevice(adapter, 'dimmable');
+    const writeProperty = jest.spyOn(device, 'writeProperty');
+
+    return device
+      .setProperty('brightness', '40')
+      .then((value) => {
+        expect(value).toBe(40);
+        expect(writeProperty).toHaveBeenCalledWith(device.getBrightnessProperty(), 40, 40);
+        expect(device.getBrightnessProperty().getCachedValue()).toBe(40);
+
+        return device.setProperty('brightness', 150);
+      })
+      .then(
+        () => Promise.reject(new Error('Expected the write to fail')),
+        (err) => {
+          expect(err).toBeInstanceOf(PropertyValueError);
+          expect(writeProperty).toHaveBeenCalledTimes(1);
+        }
+      );
+  });
+
+  it('keeps the old value if writeProperty fails', () => {
+    const device = new OnOffSwitchDevice(adapter, 'switch');
+    jest.spyOn(device, 'writeProperty').mockRejectedValue(new Error('Device offline'));
+
+    return expect(device.setProperty('on', true))
+      .rejects.toThrow('Device offline')
+      .then(() => {
+        expect(device.getOnProperty().getCachedValue()).toBe(false);
+      });
+  });
+
+  it('rejects writes to sensor readings', () => {
+    const device = new MotionSensorDevice(adapter, 'motion');
+    return expect(device.setProperty('motion', true)).rejects.toBeInstanceOf(PropertyValueError);
+  });
+
+  describe('ColorLightDevice', () => {
+    it('only adds a color temperature when asked to', () => {
+      const plain = new ColorLightDevice(adapter, 'color');
+      expect(propertyNames(plain)).toEqual(['on', 'brightness', 'color']);
+      expect(plain.getColorTemperatureProperty()).toBeUndefined();
+
+      const tunable = new ColorLightDevice(adapter, 'tunable', {
+        colorTemperature: { minimum: 2200, maximum: 4000 },
+      });
+      const property = tunable.getColorTemperatureProperty()!;
+      expect(property.getUnit()).toBe('kelvin');
+      expect(property.getMinimum()).toBe(2200);
+      expect(property.getMaximum()).toBe(4000);
+      expect(property.getCachedValue()).toBe(2200);
+    });
+
+    it('rejects colors which are not hex triplets', () => {
+      const device = new ColorLightDevice(adapter, 'color');
+      return expect(device.setProperty('color', 'red')).rejects.toBeInstanceOf(PropertyValueError);
+    });
+  });
+
+  describe('ThermostatDevice', () => {
+    it('defaults to a range in degree celsius', () => {
+      const target = new ThermostatDevice(adapter, 'thermostat').getTargetTemperatureProperty();
+      expect(target.getUnit()).toBe('degree celsius');
+      expect(target.getMinimum()).toBe(10);
+      expect(target.getMaximum()).toBe(32);
+    });
+
+    it('defaults to a range in degree fahrenheit for that unit', () => {
+      const device = new ThermostatDevice(adapter, 'thermostat', { unit: 'degree fahrenheit' });
+      const target = device.getTargetTemperatureProperty();
+      expect(target.getUnit()).toBe('degree fahrenheit');
+      expect(target.getMinimum()).toBe(50);
+      expect(target.getMaximum()).toBe(90);
+      expect(device.getTemperatureProperty().getUnit()).toBe('degree fahrenheit');
+    });
+
+    it('takes a custom range', () => {
+      const device = new ThermostatDevice(adapter, 'thermostat', { minimum: 5, maximum: 25 });
+      expect(device.getTargetTemperatureProperty().getMinimum()).toBe(5);
+      expect(device.getTargetTemperatureProperty().getMaximum()).toBe(25);
+    });
+  });
+
+  describe('SmartPlugDevice', () => {
+    it('adds voltage and current by default', () => {
+      expect(propertyNames(new SmartPlugDevice(adapter, 'plug'))).toEqual([
+        'on',
+        'power',
+        'voltage',
+        'current',
+      ]);
+    });
+
+    it('can leave out voltage and current', () => {
+      const device = new SmartPlugDevice(adapter, 'plug', { voltageAndCurrent: false });
+      expect(propertyNames(device)).toEqual(['on', 'power']);
+      expect(device.getVoltageProperty()).toBeUndefined();
+      expect(device.getCurrentProperty()).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Action } from '../src/action';
+import { Adapter } from '../src/adapter';
+import { Device } from '../src/device';
+import { MessageType } from '../src/message-type';
+import { Property } from '../src/property';
+import { Any, Property as PropertySchema } from '../src/schema';
+import { createStubAdapter, useFakeGateway } from './helpers';
+
+class TestDevice extends Device {
+  public performed: Action[] = [];
+
+  public signals: AbortSignal[] = [];
+
+  constructor(adapter: Adapter, id: string) {
+    super(adapter, id);
+    this.addAction('finish', {});
+    this.addAction('leave', {});
+    this.addAction('wait', {});
+    this.addAction('throw', {});
+    this.addAction('measure', {
+      output: { type: 'number', minimum: 0, unit: 'percent' },
+    });
+  }
+
+  performAction(action: Action, signal: AbortSignal): Promise<void> {
+    this.performed.push(action);
+    this.signals.push(signal);
+
+    switch (action.getName()) {
+      case 'finish':
+        action.start();
+        action.finish();
+        return Promise.resolve();
+      case 'wait':
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      case 'throw':
+        throw new Error('Not implemented');
+      default:
+        // Resolve without finishing the action.
+        return Promise.resolve();
+    }
+  }
+}
+
+describe('Device', () => {
+  let device: TestDevice;
+
+  beforeEach(() => {
+    const adapter = createStubAdapter();
+    device = new TestDevice(adapter, 'device-1');
+    adapter.handleDeviceAdded(device);
+  });
+
+  describe('requestAction', () => {
+    it('passes a signal which is aborted by removeAction', () => {
+      return device
+        .requestAction('action-1', 'wait', {})
+        .then(() => {
+          expect(device.signals[0].aborted).toBe(false);
+          expect(Object.keys(device.getActions())).toEqual(['action-1']);
+          return device.removeAction('action-1', 'wait');
+        })
+        .then(() => {
+          expect(device.signals[0].aborted).toBe(true);
+          expect(device.getActions()).toEqual({});
+        });
+    });
+
+    it('keeps tracking actions until they have finished', () => {
+      return device
+        .requestAction('action-1', 'leave', {})
+        .then(() => new Promise((resolve) => setImmediate(resolve)))
+        .then(() => {
+          const action = device.performed[0];
+          expect(device.getAction('action-1')).toBe(action);
+
+          action.start();
+          action.finish();
+          expect(device.getActions()).toEqual({});
+        });
+    });
+
+    it('fails actions for which performAction throws', () => {
+      device.setActionConcurrency({ maxConcurrent: 1, maxQueueLength: 1, overflow: 'reject-new' });
+
+      return device
+        .requestAction('action-1', 'throw', {})
+        .then(() => new Promise((resolve) => setImmediate(resolve)))
+        .then(() => {
+          expect(device.performed[0].getStatus()).toBe('error');
+          expect(device.getActions()).toEqual({});
+          return device.requestAction('action-2', 'finish', {});
+        })
+        .then(() => new Promise((resolve) => setImmediate(resolve)))
+        .then(() => {
+          expect(device.performed[1].getStatus()).toBe('completed');
+        });
+    });
+  });
+
+  describe('removeAction', () => {
+    it('removes the action even if cancelAction rejects', () => {
+      jest.spyOn(device, 'cancelAction').mockReturnValue(Promise.reject(new Error('Failed')));
+
+      return device
+        .requestAction('action-1', 'leave', {})
+        .then(() => device.removeAction('action-1', 'leave'))
+        .then(() => {
+          expect(device.performed[0].getStatus()).toBe('cancelled');
+          expect(device.getActions()).toEqual({});
+        });
+    });
+  });
+
+  describe('setActionConcurrency', () => {
+    it('cancels the oldest queued action with drop-oldest', () => {
+      device.setActionConcurrency({ maxConcurrent: 1, maxQueueLength: 1, overflow: 'drop-oldest' });
+
+      return device
+        .requestAction('action-1', 'wait', {})
+        .then(() => device.requestAction('action-2', 'wait', {}))
+        .then(() => {
+          const queued = device.getAction('action-2')!;
+          return device.requestAction('action-3', 'wait', {}).then(() => {
+            expect(queued.getStatus()).toBe('cancelled');
+            expect(Object.keys(device.getActions()).sort()).toEqual(['action-1', 'action-3']);
+          });
+        });
+    });
+
+    it('rejects new actions with drop-oldest if the queue has no room', () => {
+      device.setActionConcurrency({ maxConcurrent: 1, maxQueueLength: 0, overflow: 'drop-oldest' });
+
+      return device
+        .requestAction('action-1', 'wait', {})
+        .then(() => expect(device.requestAction('action-2', 'wait', {})).rejects.toMatch('full'))
+        .then(() => {
+          expect(Object.keys(device.getActions())).toEqual(['action-1']);
+          expect(device.performed).toHaveLength(1);
+        });
+    });
+  });
+
+  describe('validateActionOutput', () => {
+    it('accepts output matching a schema with annotations', () => {
+      expect(device.validateActionOutput('measure', 42)).toBeNull();
+    });
+
+    it('rejects output which does not match the schema', () => {
+      expect(device.validateActionOutput('measure', -1)).toMatch('output is invalid');
+    });
+
+    it('fails actions finished with invalid output', () => {
+      const action = new Action('action-1', device, 'measure');
+      action.start();
+      action.finish(42);
+      expect(action.getStatus()).toBe('completed');
+
+      const invalid = new Action('action-2', device, 'measure');
+      invalid.start();
+      invalid.finish('high');
+      expect(invalid.getStatus()).toBe('error');
+    });
+  });
+
+  describe('applyUserEdits', () => {
+    function addProperty(name: string, description: PropertySchema, value: Any): Property<Any> {
+      const property = new Property<Any>(device, name, description);
+      property.setCachedValue(value);
+      device.addProperty(property);
+      return property;
+    }
+
+    it('converts temperatures to the unit the user picked', () => {
+      const property = addProperty(
+        'temperature',
+        { '@type': 'TemperatureProperty', type: 'number', unit: 'degree celsius' },
+        100
+      );
+
+      const edits = device.applyUserEdits({
+        properties: { temperature: { type: 'number', unit: 'degree fahrenheit' } },
+      });
+
+      expect(edits).toEqual({ properties: { temperature: { unit: 'degree fahrenheit' } } });
+      expect(property.getCachedValue()).toBeCloseTo(212);
+    });
+
+    it('keeps color temperatures in kelvin', () => {
+      const property = addProperty(
+        'colorTemperature',
+        { '@type': 'ColorTemperatureProperty', type: 'integer', unit: 'kelvin' },
+        3000
+      );
+
+      const edits = device.applyUserEdits({
+        properties: { colorTemperature: { type: 'integer', unit: 'degree celsius' } },
+      });
+
+      expect(edits).toEqual({});
+      expect(property.getUnit()).toBe('kelvin');
+      expect(property.getCachedValue()).toBe(3000);
+    });
+
+    it('takes units which cannot be converted as they are', () => {
+      const property = addProperty('level', { type: 'number', unit: 'percent' }, 50);
+
+      device.applyUserEdits({ properties: { level: { type: 'number', unit: 'lux' } } });
+
+      expect(property.getUnit()).toBe('lux');
+      expect(property.getCachedValue()).toBe(50);
+    });
+  });
+
+  describe('with a gateway', () => {
+    const context = useFakeGateway();
+
+    beforeEach(() => {
+      const adapter = new Adapter(context.manager, 'test-adapter', 'test-plugin');
+      context.manager.addAdapter(adapter);
+      device = new TestDevice(adapter, 'device-1');
+      adapter.handleDeviceAdded(device);
+    });
+
+    it('performs actions requested by the gateway', () => {
+      const { gateway } = context;
+      gateway.requestAction({
+        adapterId: 'test-adapter',
+        deviceId: 'device-1',
+        actionName: 'finish',
+        actionId: 'action-1',
+        input: {},
+      });
+
+      return gateway
+        .waitForNotification(MessageType.DEVICE_REQUEST_ACTION_RESPONSE)
+        .then((msg) => {
+          expect(msg.data).toMatchObject({ actionId: 'action-1', success: true });
+          return gateway.waitForNotification(
+            MessageType.DEVICE_ACTION_STATUS_NOTIFICATION,
+            (msg) => (<{ action: { status: string } }>msg.data).action.status === 'completed'
+          );
+        })
+        .then(() => {
+          expect(device.performed).toHaveLength(1);
+        });
+    });
+  });
+});
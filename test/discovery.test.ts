@@ -0,0 +1,199 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import dgram from 'dgram';
+import { createAbortController } from '../src/abort-controller';
+import { DiscoveryCandidate, DiscoveryProvider, runDiscovery } from '../src/discovery';
+import {
+  DNS_TYPE_A,
+  DNS_TYPE_PTR,
+  DNS_TYPE_SRV,
+  DNS_TYPE_TXT,
+  encodeDnsName,
+  MdnsProvider,
+} from '../src/discovery-mdns';
+import { SsdpProvider } from '../src/discovery-ssdp';
+import { UdpBroadcastProvider } from '../src/discovery-udp';
+
+type Handler = (socket: dgram.Socket, msg: Buffer, rinfo: dgram.RemoteInfo) => void;
+
+/**
+ * Start a UDP responder on the loopback interface.
+ */
+function startResponder(handler: Handler): Promise<dgram.Socket> {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket('udp4');
+    socket.on('message', (msg, rinfo) => handler(socket, msg, rinfo));
+    socket.bind(0, '127.0.0.1', () => resolve(socket));
+  });
+}
+
+function discover(provider: DiscoveryProvider): Promise<DiscoveryCandidate[]> {
+  const candidates: DiscoveryCandidate[] = [];
+  return runDiscovery([provider], createAbortController().signal, (candidate) =>
+    candidates.push(candidate)
+  ).then(() => candidates);
+}
+
+function encodeRecord(name: string, type: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(10);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt16BE(1, 2);
+  header.writeUInt32BE(120, 4);
+  header.writeUInt16BE(data.length, 8);
+  return Buffer.concat([encodeDnsName(name), header, data]);
+}
+
+function encodeTxt(entries: string[]): Buffer {
+  return Buffer.concat(
+    entries.map((entry) => Buffer.concat([Buffer.from([entry.length]), Buffer.from(entry)]))
+  );
+}
+
+describe('Discovery', () => {
+  let responder: dgram.Socket | null = null;
+
+  afterEach(() => {
+    responder?.close();
+    responder = null;
+  });
+
+  describe('MdnsProvider', () => {
+    it('reports services from a responder', () => {
+      const instance = 'My Lamp._http._tcp.local';
+
+      return startResponder((socket, _msg, rinfo) => {
+        const header = Buffer.alloc(12);
+        header.writeUInt16BE(0x8400, 2);
+        header.writeUInt16BE(1, 6);
+        header.writeUInt16BE(3, 10);
+
+        const srv = Buffer.concat([
+          Buffer.from([0, 0, 0, 0, 0x1f, 0x90]),
+          encodeDnsName('lamp.local'),
+        ]);
+        socket.send(
+          Buffer.concat([
+            header,
+            encodeRecord('_http._tcp.local', DNS_TYPE_PTR, encodeDnsName(instance)),
+            encodeRecord(instance, DNS_TYPE_SRV, srv),
+            encodeRecord(instance, DNS_TYPE_TXT, encodeTxt(['path=/things', 'secure'])),
+            encodeRecord('lamp.local', DNS_TYPE_A, Buffer.from([127, 0, 0, 7])),
+          ]),
+          rinfo.port,
+          rinfo.address
+        );
+      })
+        .then((socket) => {
+          responder = socket;
+          return discover(
+            new MdnsProvider({
+              serviceType: '_http._tcp.local',
+              address: '127.0.0.1',
+              port: socket.address().port,
+              timeout: 200,
+            })
+          );
+        })
+        .then((candidates) => {
+          expect(candidates).toEqual([
+            expect.objectContaining({
+              provider: 'mdns',
+              id: instance,
+              address: '127.0.0.7',
+              port: 8080,
+              name: 'My Lamp',
+              type: '_http._tcp.local',
+              attributes: expect.objectContaining({ path: '/things' }),
+            }),
+          ]);
+        });
+    });
+  });
+
+  describe('SsdpProvider', () => {
+    it('reports devices answering an M-SEARCH once', () => {
+      const searches: string[] = [];
+
+      return startResponder((socket, msg, rinfo) => {
+        searches.push(msg.toString());
+        const response = [
+          'HTTP/1.1 200 OK',
+          'ST: upnp:rootdevice',
+          'USN: uuid:abc::upnp:rootdevice',
+          'LOCATION: http://127.0.0.1:8080/description.xml',
+          'SERVER: Test/1.0',
+          '',
+          '',
+        ].join('\r\n');
+
+        // Devices often answer more than once.
+        socket.send(response, rinfo.port, rinfo.address);
+        socket.send(response, rinfo.port, rinfo.address);
+      })
+        .then((socket) => {
+          responder = socket;
+          return discover(
+            new SsdpProvider({ address: '127.0.0.1', port: socket.address().port, timeout: 200 })
+          );
+        })
+        .then((candidates) => {
+          expect(searches).toHaveLength(1);
+          expect(searches[0]).toMatch(/^M-SEARCH \* HTTP\/1\.1\r\n/);
+          expect(candidates).toEqual([
+            expect.objectContaining({
+              provider: 'ssdp',
+              id: 'uuid:abc::upnp:rootdevice',
+              address: '127.0.0.1',
+              type: 'upnp:rootdevice',
+              location: 'http://127.0.0.1:8080/description.xml',
+            }),
+          ]);
+        });
+    });
+
+    it('stops early when the signal is aborted', () => {
+      const controller = createAbortController();
+      const start = Date.now();
+      setTimeout(() => controller.abort(), 50);
+
+      return runDiscovery(
+        [new SsdpProvider({ address: '127.0.0.1', port: 9, timeout: 5000 })],
+        controller.signal,
+        () => {
+          // pass
+        }
+      ).then(() => {
+        expect(Date.now() - start).toBeLessThan(1000);
+      });
+    });
+  });
+
+  describe('UdpBroadcastProvider', () => {
+    it('reports the devices which answer the probe', () => {
+      return startResponder((socket, msg, rinfo) => {
+        socket.send(`HELLO ${msg}`, rinfo.port, rinfo.address);
+      })
+        .then((socket) => {
+          responder = socket;
+          return discover(
+            new UdpBroadcastProvider({
+              address: '127.0.0.1',
+              port: socket.address().port,
+              message: 'PING',
+              timeout: 200,
+              parse: (msg) => ({ name: msg.toString() }),
+            })
+          );
+        })
+        .then((candidates) => {
+          expect(candidates).toEqual([
+            expect.objectContaining({ address: '127.0.0.1', name: 'HELLO PING' }),
+          ]);
+        });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Adapter } from '../src/adapter';
+import { OnOffSwitchDevice } from '../src/device-templates';
+import { FakeGateway } from '../src/fake-gateway';
+import { MessageType } from '../src/message-type';
+import { useFakeGateway } from './helpers';
+
+describe('FakeGateway', () => {
+  const context = useFakeGateway({ strict: true }, { gatewayVersion: '1.1.0' });
+  let gateway: FakeGateway;
+  let adapter: Adapter;
+  let device: OnOffSwitchDevice;
+
+  beforeEach(() => {
+    gateway = context.gateway;
+    adapter = new Adapter(context.manager, 'test-adapter', 'test-plugin');
+    context.manager.addAdapter(adapter);
+    device = new OnOffSwitchDevice(adapter, 'switch-1');
+    adapter.handleDeviceAdded(device);
+  });
+
+  it('registers the plugin', () => {
+    return gateway.waitForRegistration().then((pluginId) => {
+      expect(pluginId).toBe('test-plugin');
+      expect(gateway.isRegistered()).toBe(true);
+      expect(context.manager.getGatewayVersion()).toBe('1.1.0');
+    });
+  });
+
+  it('records device added notifications', () => {
+    return gateway.waitForNotification(MessageType.DEVICE_ADDED_NOTIFICATION).then((msg) => {
+      const data = <{ device: { id: string } }>msg.data;
+      expect(data.device.id).toBe('switch-1');
+    });
+  });
+
+  it('sets properties', () => {
+    gateway.setProperty({
+      adapterId: 'test-adapter',
+      deviceId: 'switch-1',
+      propertyName: 'on',
+      propertyValue: true,
+    });
+
+    return gateway
+      .waitForNotification(MessageType.DEVICE_PROPERTY_CHANGED_NOTIFICATION)
+      .then((msg) => {
+        const data = <{ property: { name: string; value: boolean } }>msg.data;
+        expect(data.property).toMatchObject({ name: 'on', value: true });
+        expect(device.getOnProperty().getCachedValue()).toBe(true);
+      });
+  });
+
+  it('answers unload requests', () => {
+    gateway.unloadPlugin();
+    return gateway.waitForNotification(MessageType.PLUGIN_UNLOAD_RESPONSE);
+  });
+
+  it('times out waiting for a notification which never comes', () => {
+    return expect(
+      gateway.waitForNotification(MessageType.PLUGIN_ERROR_NOTIFICATION, () => true, 50)
+    ).rejects.toThrow('Timed out');
+  });
+
+  it('rejects start() if the port is in use', () => {
+    const other = new FakeGateway(gateway.getPort());
+    return expect(other.start()).rejects.toMatchObject({ code: 'EADDRINUSE' });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Shared set up for the tests.
+ */
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Adapter } from '../src/adapter';
+import { AddonManagerProxy } from '../src/addon-manager-proxy';
+import { DEFAULT_PREFERENCES, DEFAULT_USER_PROFILE, FakeGateway } from '../src/fake-gateway';
+import { PluginClient } from '../src/plugin-client';
+import { Preferences } from '../src/schema';
+
+export interface GatewayContext {
+  gateway: FakeGateway;
+  pluginClient: PluginClient;
+  manager: AddonManagerProxy;
+}
+
+/**
+ * Start a FakeGateway and register a PluginClient with it before each test,
+ * and tear both down after each test.
+ *
+ * The returned context is filled in by the beforeEach hook, so its members
+ * may only be used from within hooks and tests.
+ */
+export function useFakeGateway(
+  clientOptions: Record<string, unknown> = {},
+  gatewayOptions: Record<string, unknown> = {}
+): GatewayContext {
+  const context = <GatewayContext>{};
+
+  beforeEach(() => {
+    context.gateway = new FakeGateway(0, gatewayOptions);
+    context.pluginClient = new PluginClient('test-plugin', clientOptions);
+
+    return context.gateway
+      .start()
+      .then((port) => context.pluginClient.register(port))
+      .then((proxy) => {
+        context.manager = <AddonManagerProxy>proxy;
+      });
+  });
+
+  afterEach(() => {
+    context.pluginClient.unload();
+    context.gateway.stop();
+  });
+
+  return context;
+}
+
+type SentMessage =
+  | 'handleDeviceAdded'
+  | 'handleDeviceRemoved'
+  | 'sendPropertyChangedNotification'
+  | 'sendActionStatusNotification'
+  | 'sendEventNotification'
+  | 'sendConnectedNotification'
+  | 'sendPairingPrompt'
+  | 'sendUnpairingPrompt';
+
+export type StubManager = AddonManagerProxy & Record<SentMessage, jest.Mock>;
+
+/**
+ * Create a manager which records what the adapter and its devices send to
+ * the gateway, without any IPC.
+ */
+export function createStubManager(preferences = DEFAULT_PREFERENCES): StubManager {
+  return <StubManager>(<unknown>{
+    getGatewayVersion: () => '1.0.0',
+    getUserProfile: () => DEFAULT_USER_PROFILE,
+    getPreferences: () => preferences,
+    handleDeviceAdded: jest.fn(),
+    handleDeviceRemoved: jest.fn(),
+    sendPropertyChangedNotification: jest.fn(),
+    sendActionStatusNotification: jest.fn(),
+    sendEventNotification: jest.fn(),
+    sendConnectedNotification: jest.fn(),
+    sendPairingPrompt: jest.fn(),
+    sendUnpairingPrompt: jest.fn(),
+  });
+}
+
+/**
+ * Create an adapter on top of a stub manager.
+ */
+export function createStubAdapter(preferences?: Preferences): Adapter {
+  return new Adapter(createStubManager(preferences), 'test-adapter', 'test-plugin');
+}
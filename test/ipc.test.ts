@@ -0,0 +1,201 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { ErrorObject } from 'ajv';
+import WebSocket from 'ws';
+import { InvalidMessagePolicy, IpcSocket } from '../src/ipc';
+import { MessageType } from '../src/message-type';
+import { useFakeGateway } from './helpers';
+
+const VALID_MESSAGE = {
+  messageType: MessageType.DEVICE_SET_PROPERTY_COMMAND,
+  data: {
+    pluginId: 'test-plugin',
+    adapterId: 'test-adapter',
+    deviceId: 'device-1',
+    propertyName: 'on',
+    propertyValue: true,
+  },
+};
+
+const INVALID_MESSAGE = {
+  messageType: MessageType.DEVICE_SET_PROPERTY_COMMAND,
+  data: Object.assign({}, VALID_MESSAGE.data, { deviceId: 42 }),
+};
+
+describe('IpcSocket', () => {
+  let server: IpcSocket | null = null;
+  let client: WebSocket | null = null;
+  let onMsg: jest.Mock;
+  let invalid: jest.Mock;
+  let error: jest.SpyInstance;
+
+  /**
+   * Start a server socket with the given policy and connect a raw client.
+   */
+  function listen(invalidMessagePolicy?: InvalidMessagePolicy): Promise<WebSocket> {
+    server = new IpcSocket(true, 0, onMsg, 'Test:', { invalidMessagePolicy });
+    server.on('invalid', invalid);
+
+    return server.getListeningPromise()!.then(
+      (port) =>
+        new Promise((resolve) => {
+          const ws = new WebSocket(`ws://127.0.0.1:${port}/`);
+          client = ws;
+          ws.on('open', () => resolve(ws));
+        })
+    );
+  }
+
+  /**
+   * Send each message, followed by a valid one, and wait for the valid one
+   * to arrive.
+   */
+  function sendAll(ws: WebSocket, messages: unknown[]): Promise<void> {
+    return new Promise((resolve) => {
+      onMsg.mockImplementation((msg) => {
+        if (msg.data.propertyName === 'last') {
+          resolve();
+        }
+      });
+
+      for (const msg of messages) {
+        ws.send(typeof msg === 'string' ? msg : JSON.stringify(msg));
+      }
+
+      ws.send(
+        JSON.stringify({
+          messageType: VALID_MESSAGE.messageType,
+          data: Object.assign({}, VALID_MESSAGE.data, { propertyName: 'last' }),
+        })
+      );
+    });
+  }
+
+  function dispatched(): unknown[] {
+    return onMsg.mock.calls
+      .map((call) => call[0])
+      .filter((msg) => msg.data.propertyName !== 'last');
+  }
+
+  beforeEach(() => {
+    onMsg = jest.fn();
+    invalid = jest.fn();
+    error = jest.spyOn(console, 'error').mockImplementation(() => {
+      // pass
+    });
+  });
+
+  afterEach(() => {
+    error.mockRestore();
+    client?.close();
+    client = null;
+    server?.close();
+    server = null;
+  });
+
+  describe('validate', () => {
+    it('checks messages against their schema', () => {
+      return listen().then(() => {
+        expect(server!.validate(VALID_MESSAGE)).toBeNull();
+
+        const errors = <ErrorObject[]>server!.validate(INVALID_MESSAGE);
+        expect(errors).toEqual([expect.objectContaining({ dataPath: '/data/deviceId' })]);
+
+        expect(server!.validate({ messageType: 65000 })).toEqual([
+          expect.objectContaining({ keyword: 'messageType', params: { messageType: 65000 } }),
+        ]);
+      });
+    });
+  });
+
+  it('drops invalid messages by default', () => {
+    return listen()
+      .then((ws) => sendAll(ws, [INVALID_MESSAGE, VALID_MESSAGE]))
+      .then(() => {
+        expect(dispatched()).toEqual([VALID_MESSAGE]);
+        expect(invalid).toHaveBeenCalledTimes(1);
+        expect(invalid).toHaveBeenCalledWith(
+          INVALID_MESSAGE,
+          [expect.objectContaining({ dataPath: '/data/deviceId' })],
+          expect.anything()
+        );
+      });
+  });
+
+  it('dispatches invalid messages with the dispatch policy', () => {
+    return listen('dispatch')
+      .then((ws) => sendAll(ws, [INVALID_MESSAGE, VALID_MESSAGE]))
+      .then(() => {
+        expect(dispatched()).toEqual([INVALID_MESSAGE, VALID_MESSAGE]);
+        expect(invalid).toHaveBeenCalledTimes(1);
+      });
+  });
+
+  it('reports messages without a messageType', () => {
+    return listen('dispatch')
+      .then((ws) => sendAll(ws, [{ data: {} }]))
+      .then(() => {
+        expect(invalid).toHaveBeenCalledWith(
+          { data: {} },
+          [expect.objectContaining({ keyword: 'required' })],
+          expect.anything()
+        );
+      });
+  });
+
+  it('ignores data which is not JSON', () => {
+    return listen('dispatch')
+      .then((ws) => sendAll(ws, ['not json']))
+      .then(() => {
+        expect(dispatched()).toEqual([]);
+        expect(invalid).not.toHaveBeenCalled();
+        expect(error).toHaveBeenCalledWith('Test:', 'Error parsing message as JSON');
+      });
+  });
+});
+
+describe('PluginClient with the error policy', () => {
+  const context = useFakeGateway({ invalidMessagePolicy: 'error' });
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    error = jest.spyOn(console, 'error').mockImplementation(() => {
+      // pass
+    });
+  });
+
+  afterEach(() => {
+    error.mockRestore();
+  });
+
+  it('reports invalid messages to the gateway and counts them', () => {
+    const { gateway, pluginClient, manager } = context;
+    const onMsg = jest.spyOn(manager, 'onMsg');
+
+    gateway.sendMessage(MessageType.DEVICE_SET_PROPERTY_COMMAND, { deviceId: 42 });
+    gateway.sendMessage(MessageType.DEVICE_SET_PROPERTY_COMMAND, { deviceId: 43 });
+    gateway.sendMessage(<number>(<unknown>null));
+
+    // The message without a messageType is reported last.
+    return gateway
+      .waitForNotification(MessageType.PLUGIN_ERROR_NOTIFICATION, (msg) =>
+        (<string>msg.data.message).startsWith('Invalid message of type -1')
+      )
+      .then(() => {
+        const reports = gateway.getNotifications(MessageType.PLUGIN_ERROR_NOTIFICATION);
+        expect(reports).toHaveLength(3);
+        expect(reports[0].data.message).toMatch(
+          `Invalid message of type ${MessageType.DEVICE_SET_PROPERTY_COMMAND}: `
+        );
+        expect(onMsg).not.toHaveBeenCalled();
+        expect(pluginClient.getValidationFailures()).toEqual({
+          [MessageType.DEVICE_SET_PROPERTY_COMMAND]: 2,
+          [-1]: 1,
+        });
+      });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { MessageType } from '../src/message-type';
+import { definitionValidators, validators } from '../src/message-validators';
+
+describe('message validators', () => {
+  it('has a validator for every message type', () => {
+    const messageTypes = Object.values(MessageType).filter((value) => typeof value === 'number');
+
+    expect(messageTypes.length).toBeGreaterThan(0);
+    expect(Object.keys(validators).map(Number).sort()).toEqual(messageTypes.sort());
+  });
+
+  it('checks messages against their schema', () => {
+    const validate = validators[MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION];
+    const data = { pluginId: 'test-plugin', adapterId: 'test-adapter', deviceId: 'device-1' };
+
+    expect(
+      validate({
+        messageType: MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION,
+        data: Object.assign({ connected: true }, data),
+      })
+    ).toBe(true);
+
+    expect(
+      validate({
+        messageType: MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION,
+        data: Object.assign({ connected: 'yes' }, data),
+      })
+    ).toBe(false);
+    expect(validate.errors).toEqual([
+      expect.objectContaining({ dataPath: '/data/connected', keyword: 'type' }),
+    ]);
+  });
+
+  it('rejects messages of another type', () => {
+    const validate = validators[MessageType.PLUGIN_UNLOAD_REQUEST];
+    const data = { pluginId: 'test-plugin' };
+
+    expect(validate({ messageType: MessageType.PLUGIN_UNLOAD_REQUEST, data })).toBe(true);
+    expect(validate({ messageType: MessageType.PLUGIN_UNLOAD_RESPONSE, data })).toBe(false);
+  });
+
+  it('resolves references to the shared definitions', () => {
+    const validate = validators[MessageType.DEVICE_ADDED_NOTIFICATION];
+    const msg = {
+      messageType: MessageType.DEVICE_ADDED_NOTIFICATION,
+      data: {
+        pluginId: 'test-plugin',
+        adapterId: 'test-adapter',
+        device: { id: 'device-1', properties: { on: { type: 'boolean' } } },
+      },
+    };
+
+    expect(validate(msg)).toBe(true);
+
+    msg.data.device.properties.on.type = 'switch';
+    expect(validate(msg)).toBe(false);
+  });
+
+  describe('definitionValidators', () => {
+    it('requires an id for a device but not for a device description', () => {
+      const description = { title: 'Lamp', properties: { on: { type: 'boolean' } } };
+
+      expect(definitionValidators.device(description)).toBe(false);
+      expect(definitionValidators.device(Object.assign({ id: 'lamp' }, description))).toBe(true);
+      expect(definitionValidators.deviceWithoutId(description)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Adapter } from '../src/adapter';
+import { AddonManagerProxy } from '../src/addon-manager-proxy';
+import { DiscoveryProvider } from '../src/discovery';
+import { PairingEndReason } from '../src/pairing-session';
+import { useFakeGateway } from './helpers';
+
+class ProviderAdapter extends Adapter {
+  getDiscoveryProviders(): DiscoveryProvider[] {
+    return [
+      {
+        getName: () => 'test',
+        discover: () => Promise.resolve(),
+      },
+    ];
+  }
+}
+
+describe('PairingSession', () => {
+  const context = useFakeGateway();
+  let manager: AddonManagerProxy;
+
+  beforeEach(() => {
+    manager = context.manager;
+  });
+
+  function waitForEnd(adapter: Adapter, timeoutSeconds: number): Promise<PairingEndReason> {
+    const session = adapter.startPairingSession(timeoutSeconds);
+    return new Promise((resolve) => session.on('end', resolve));
+  }
+
+  it('stays open without discovery providers until cancelled', () => {
+    const adapter = new Adapter(manager, 'test-adapter', 'test-plugin');
+    const session = adapter.startPairingSession(60);
+
+    return new Promise((resolve) => setTimeout(resolve, 20)).then(() => {
+      expect(session.isActive()).toBe(true);
+      expect(session.getSignal().aborted).toBe(false);
+
+      adapter.cancelPairing();
+      expect(session.getEndReason()).toBe('cancelled');
+      expect(session.getSignal().aborted).toBe(true);
+      expect(adapter.getPairingSession()).toBeNull();
+    });
+  });
+
+  it('stays open without discovery providers until it times out', () => {
+    const adapter = new Adapter(manager, 'test-adapter', 'test-plugin');
+    return expect(waitForEnd(adapter, 0.05)).resolves.toBe('timeout');
+  });
+
+  it('completes when the discovery providers have finished', () => {
+    const adapter = new ProviderAdapter(manager, 'test-adapter', 'test-plugin');
+    return expect(waitForEnd(adapter, 60)).resolves.toBe('completed');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Action } from '../src/action';
+import { Adapter } from '../src/adapter';
+import { AddonManagerProxy } from '../src/addon-manager-proxy';
+import { OnOffSwitchDevice } from '../src/device-templates';
+import { FakeGateway } from '../src/fake-gateway';
+import { MessageValidationError } from '../src/ipc';
+import { MessageType } from '../src/message-type';
+import { PluginClient } from '../src/plugin-client';
+import { Message } from '../src/schema';
+import { useFakeGateway } from './helpers';
+
+describe('PluginClient', () => {
+  const context = useFakeGateway({ reconnectDelay: 10 });
+  let gateway: FakeGateway;
+  let pluginClient: PluginClient;
+  let manager: AddonManagerProxy;
+
+  beforeEach(() => {
+    ({ gateway, pluginClient, manager } = context);
+  });
+
+  describe('request', () => {
+    const outlet = { notifierId: 'notifier', outletId: 'outlet' };
+
+    function sendRequest(): Promise<{ reply: Promise<Message>; messageId: number }> {
+      const reply = pluginClient.request(
+        MessageType.OUTLET_NOTIFY_REQUEST,
+        Object.assign({ title: 'Title', message: 'Message', level: 0 }, outlet)
+      );
+
+      return gateway
+        .waitForNotification(MessageType.OUTLET_NOTIFY_REQUEST)
+        .then((msg) => ({ reply, messageId: <number>msg.data.messageId }));
+    }
+
+    it('resolves with the response carrying the same messageId', () => {
+      return sendRequest().then(({ reply, messageId }) => {
+        gateway.sendMessage(
+          MessageType.OUTLET_NOTIFY_RESPONSE,
+          Object.assign({ messageId, success: true }, outlet)
+        );
+
+        return expect(reply).resolves.toMatchObject({
+          messageType: MessageType.OUTLET_NOTIFY_RESPONSE,
+          data: { messageId },
+        });
+      });
+    });
+
+    it('dispatches gateway requests with a colliding messageId', () => {
+      let settled = false;
+      const dispatched = new Promise<Message>((resolve) => {
+        jest.spyOn(manager, 'onMsg').mockImplementationOnce((msg) => {
+          resolve(msg);
+          return null;
+        });
+      });
+
+      return sendRequest().then(({ reply, messageId }) => {
+        reply.then(() => {
+          settled = true;
+        });
+
+        gateway.notifyOutlet(
+          Object.assign({ messageId, title: 'Title', message: 'Message', level: 0 }, outlet)
+        );
+
+        return dispatched.then((msg) => {
+          expect(msg).toMatchObject({
+            messageType: MessageType.OUTLET_NOTIFY_REQUEST,
+            data: { messageId },
+          });
+          expect(settled).toBe(false);
+
+          gateway.sendMessage(
+            MessageType.OUTLET_NOTIFY_RESPONSE,
+            Object.assign({ messageId, success: true }, outlet)
+          );
+          return reply;
+        });
+      });
+    });
+  });
+
+  describe('reconnect', () => {
+    it('replays devices and flushes queued notifications after a restart', () => {
+      const adapter = new Adapter(manager, 'test-adapter', 'test-plugin');
+      manager.addAdapter(adapter);
+      const device = new OnOffSwitchDevice(adapter, 'switch-1');
+      device.addAction('toggle', {});
+      adapter.handleDeviceAdded(device);
+
+      const port = gateway.getPort();
+      const disconnected = new Promise((resolve) => pluginClient.once('disconnected', resolve));
+      gateway.stop();
+
+      return disconnected
+        .then(() => {
+          expect(pluginClient.isConnected()).toBe(false);
+
+          device.getOnProperty().setCachedValueAndNotify(true);
+          new Action('action-1', device, 'toggle').start();
+          device.connectedNotify(false);
+
+          const reconnected = new Promise((resolve) => pluginClient.once('reconnected', resolve));
+          gateway = context.gateway = new FakeGateway(port);
+          return gateway.start().then(() => reconnected);
+        })
+        .then(() => gateway.waitForNotification(MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION))
+        .then(() => {
+          expect(gateway.getPluginId()).toBe('test-plugin');
+          expect(gateway.getNotifications().map((msg) => msg.messageType)).toEqual([
+            MessageType.PLUGIN_REGISTER_REQUEST,
+            MessageType.ADAPTER_ADDED_NOTIFICATION,
+            MessageType.DEVICE_ADDED_NOTIFICATION,
+            MessageType.DEVICE_PROPERTY_CHANGED_NOTIFICATION,
+            MessageType.DEVICE_ACTION_STATUS_NOTIFICATION,
+            MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION,
+          ]);
+        });
+    });
+  });
+
+  describe('unload', () => {
+    it('does not reconnect once the gateway has asked it to unload', () => {
+      const port = gateway.getPort();
+      gateway.unloadPlugin();
+
+      return gateway
+        .waitForNotification(MessageType.PLUGIN_UNLOAD_RESPONSE)
+        .then(() => {
+          // The gateway closes the connection before the plugin is done.
+          gateway.stop();
+          gateway = context.gateway = new FakeGateway(port);
+          return gateway.start();
+        })
+        .then(() => new Promise((resolve) => setTimeout(resolve, 200)))
+        .then(() => {
+          expect(gateway.isRegistered()).toBe(false);
+        });
+    });
+  });
+});
+
+describe('PluginClient in strict mode', () => {
+  const context = useFakeGateway({ strict: true });
+  const invalid = { adapterId: 'test-adapter', deviceId: 42 };
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    error = jest.spyOn(console, 'error').mockImplementation(() => {
+      // pass
+    });
+  });
+
+  afterEach(() => {
+    error.mockRestore();
+  });
+
+  it('reports invalid notifications sent from timers instead of throwing', () => {
+    const { gateway, pluginClient } = context;
+    const reported = new Promise((resolve) => pluginClient.once('invalidOutgoing', resolve));
+
+    setTimeout(() => {
+      pluginClient.sendNotification(MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION, invalid);
+      pluginClient.sendNotification(MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION, {
+        adapterId: 'test-adapter',
+        deviceId: 'device-1',
+        connected: true,
+      });
+    }, 0);
+
+    return reported
+      .then((err) => {
+        expect(err).toBeInstanceOf(MessageValidationError);
+        expect(error).toHaveBeenCalled();
+        return gateway.waitForNotification(MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION);
+      })
+      .then((msg) => {
+        expect(msg.data).toMatchObject({ deviceId: 'device-1' });
+        expect(
+          gateway.getNotifications(MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION)
+        ).toHaveLength(1);
+      });
+  });
+
+  it('rejects invalid requests', () => {
+    return expect(
+      context.pluginClient.request(MessageType.OUTLET_NOTIFY_REQUEST, invalid)
+    ).rejects.toBeInstanceOf(MessageValidationError);
+  });
+
+  it('only logs invalid messages in production', () => {
+    const { gateway, pluginClient } = context;
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'production';
+
+    try {
+      pluginClient.sendNotification(MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION, invalid);
+    } finally {
+      process.env.NODE_ENV = env;
+    }
+
+    return gateway
+      .waitForNotification(MessageType.DEVICE_CONNECTED_STATE_NOTIFICATION)
+      .then((msg) => {
+        expect(msg.data).toMatchObject({ deviceId: 42 });
+        expect(error).toHaveBeenCalled();
+      });
+  });
+});
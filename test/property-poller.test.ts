@@ -0,0 +1,93 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Adapter } from '../src/adapter';
+import { Device } from '../src/device';
+import { Property } from '../src/property';
+import { Any } from '../src/schema';
+import { createStubManager, StubManager } from './helpers';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('PropertyPoller', () => {
+  let manager: StubManager;
+  let device: Device;
+  let property: Property<Any>;
+
+  beforeEach(() => {
+    manager = createStubManager();
+    device = new Device(new Adapter(manager, 'test-adapter', 'test-plugin'), 'device-1');
+    property = new Property<Any>(device, 'level', { type: 'number' });
+    property.setCachedValue(0);
+    device.addProperty(property);
+  });
+
+  afterEach(() => {
+    device.stopPolling();
+  });
+
+  it('reads the value through Property.getValue', () => {
+    let level = 0;
+    const read = jest.fn(() => Promise.resolve(++level));
+    const getValue = jest.spyOn(property, 'getValue');
+    property.setPolling({ interval: 20, jitter: 0, read });
+    device.startPolling();
+
+    return sleep(70).then(() => {
+      expect(read.mock.calls.length).toBeGreaterThanOrEqual(2);
+      expect(getValue).toHaveBeenCalledTimes(read.mock.calls.length);
+      expect(property.getCachedValue()).toBe(level);
+      expect(manager.sendPropertyChangedNotification).toHaveBeenCalledWith(property);
+    });
+  });
+
+  it('backs off after failures', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {
+      // pass
+    });
+    const read = jest.fn(() => {
+      throw new Error('Device busy');
+    });
+    property.setPolling({ interval: 20, jitter: 0, read });
+    device.startPolling();
+
+    // Reads at 0, 40 and 120 ms, rather than every 20 ms.
+    return sleep(150).then(() => {
+      error.mockRestore();
+      expect(read.mock.calls.length).toBeGreaterThanOrEqual(2);
+      expect(read.mock.calls.length).toBeLessThanOrEqual(3);
+      expect(property.getCachedValue()).toBe(0);
+    });
+  });
+
+  it('pauses while the device is disconnected', () => {
+    const read = jest.fn(() => Promise.resolve(1));
+    property.setPolling({ interval: 20, jitter: 0, read });
+    device.startPolling();
+    device.connectedNotify(false);
+
+    return sleep(50)
+      .then(() => {
+        expect(read).not.toHaveBeenCalled();
+        device.connectedNotify(true);
+        return sleep(10);
+      })
+      .then(() => {
+        expect(read).toHaveBeenCalled();
+      });
+  });
+
+  it('lets Device.getProperty read polled properties', () => {
+    property.setPolling({ interval: 60000, read: () => Promise.resolve(42) });
+    return expect(device.getProperty('level'))
+      .resolves.toBe(42)
+      .then(() => {
+        expect(property.getCachedValue()).toBe(42);
+      });
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Device } from '../src/device';
+import { Property, PropertyValueError } from '../src/property';
+import { Any, Property as PropertySchema } from '../src/schema';
+import { createStubAdapter, StubManager } from './helpers';
+
+describe('Property', () => {
+  let device: Device;
+
+  beforeEach(() => {
+    device = new Device(createStubAdapter(), 'device-1');
+  });
+
+  function createProperty(description: PropertySchema, value: Any): Property<Any> {
+    const property = new Property<Any>(device, 'test', description);
+    property.setCachedValue(value);
+    device.addProperty(property);
+    return property;
+  }
+
+  describe('setValue', () => {
+    it('converts numeric strings for number properties', () => {
+      const property = createProperty({ type: 'number' }, 0);
+      return expect(property.setValue('12.5')).resolves.toBe(12.5);
+    });
+
+    it('converts numeric strings for integer properties', () => {
+      const property = createProperty({ type: 'integer' }, 0);
+      return expect(property.setValue('12')).resolves.toBe(12);
+    });
+
+    it('converts "true" and "false" for boolean properties', () => {
+      const property = createProperty({ type: 'boolean' }, false);
+      return expect(property.setValue('true')).resolves.toBe(true);
+    });
+
+    it('rejects booleans for integer properties', () => {
+      const property = createProperty({ type: 'integer' }, 5);
+      return expect(property.setValue(true))
+        .rejects.toBeInstanceOf(PropertyValueError)
+        .then(() => expect(property.getCachedValue()).toBe(5));
+    });
+
+    it('rejects null for integer properties', () => {
+      const property = createProperty({ type: 'integer' }, 5);
+      return expect(property.setValue(null))
+        .rejects.toBeInstanceOf(PropertyValueError)
+        .then(() => expect(property.getCachedValue()).toBe(5));
+    });
+
+    it('rejects null for string properties', () => {
+      const property = createProperty({ type: 'string' }, 'value');
+      return expect(property.setValue(null))
+        .rejects.toBeInstanceOf(PropertyValueError)
+        .then(() => expect(property.getCachedValue()).toBe('value'));
+    });
+
+    it('rejects strings which are not numbers for number properties', () => {
+      const property = createProperty({ type: 'number' }, 5);
+      return Promise.all([
+        expect(property.setValue('')).rejects.toBeInstanceOf(PropertyValueError),
+        expect(property.setValue('12 apples')).rejects.toBeInstanceOf(PropertyValueError),
+      ]);
+    });
+
+    it('only converts plain decimal strings', () => {
+      const property = createProperty({ type: 'number' }, 5);
+      return Promise.all(
+        ['0x10', '1e3', ' 5 ', '', '.5', 'Infinity'].map((value) =>
+          expect(property.setValue(value)).rejects.toBeInstanceOf(PropertyValueError)
+        )
+      )
+        .then(() => expect(property.getCachedValue()).toBe(5))
+        .then(() => expect(property.setValue('-0.25')).resolves.toBe(-0.25));
+    });
+
+    it('rejects non-integral strings for integer properties', () => {
+      const property = createProperty({ type: 'integer' }, 5);
+      return expect(property.setValue('1.5')).rejects.toMatchObject({ keyword: 'type' });
+    });
+  });
+
+  describe('setNotificationOptions', () => {
+    let notified: Any[];
+
+    beforeEach(() => {
+      notified = [];
+      const manager = <StubManager>device.getAdapter().getManager();
+      manager.sendPropertyChangedNotification.mockImplementation((property: Property<Any>) =>
+        notified.push(property.getCachedValue()!)
+      );
+    });
+
+    function sleep(ms: number): Promise<void> {
+      return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    it('skips changes below the absolute threshold', () => {
+      const property = createProperty({ type: 'number' }, 20);
+      property.setNotificationOptions({ changeThreshold: 0.5 });
+
+      property.setCachedValueAndNotify(20.6);
+      property.setCachedValueAndNotify(20.9);
+      property.setCachedValueAndNotify(21.2);
+
+      expect(notified).toEqual([20.6, 21.2]);
+    });
+
+    it('skips changes below the relative threshold', () => {
+      const property = createProperty({ type: 'number' }, 100);
+      property.setNotificationOptions({ relativeChangeThreshold: 0.1 });
+
+      property.setCachedValueAndNotify(120);
+      property.setCachedValueAndNotify(130);
+      property.setCachedValueAndNotify(140);
+
+      expect(notified).toEqual([120, 140]);
+    });
+
+    it('sends the latest value when the rate limit window closes', () => {
+      const property = createProperty({ type: 'number' }, 0);
+      property.setNotificationOptions({ minInterval: 50 });
+
+      property.setCachedValueAndNotify(1);
+      property.setCachedValueAndNotify(2);
+      property.setCachedValueAndNotify(3);
+      expect(notified).toEqual([1]);
+
+      return sleep(80).then(() => {
+        expect(notified).toEqual([1, 3]);
+      });
+    });
+
+    it('repeats the value after the heartbeat interval', () => {
+      const property = createProperty({ type: 'number' }, 5);
+      property.setNotificationOptions({ maxInterval: 30 });
+
+      return sleep(50)
+        .then(() => {
+          expect(notified).toEqual([5]);
+          property.stopNotifications();
+          return sleep(50);
+        })
+        .then(() => {
+          expect(notified).toEqual([5]);
+        });
+    });
+
+    it('does not keep the process alive with its timers', () => {
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+      const property = createProperty({ type: 'number' }, 0);
+      property.setNotificationOptions({ minInterval: 1000, maxInterval: 1000 });
+      property.setCachedValueAndNotify(1);
+      property.setCachedValueAndNotify(2);
+      property.stopNotifications();
+
+      const timers = setTimeoutSpy.mock.results.map(({ value }) => <NodeJS.Timeout>value);
+      setTimeoutSpy.mockRestore();
+      expect(timers.length).toBeGreaterThanOrEqual(2);
+      expect(timers.filter((timer) => timer.hasRef())).toEqual([]);
+    });
+  });
+
+  describe('setOptimisticWrites', () => {
+    let notified: (Any | undefined)[];
+
+    beforeEach(() => {
+      notified = [];
+      const manager = <StubManager>device.getAdapter().getManager();
+      manager.sendPropertyChangedNotification.mockImplementation((property: Property<Any>) =>
+        notified.push(property.getCachedValue())
+      );
+    });
+
+    function createOptimisticProperty(value: Any, write: Promise<void>): Property<Any> {
+      const property = createProperty({ type: 'integer' }, value);
+      property.setOptimisticWrites({ timeout: 50 });
+      jest.spyOn(property, 'writeToDevice').mockReturnValue(write);
+      return property;
+    }
+
+    it('notifies the new value before the write has completed', () => {
+      let complete: () => void;
+      const property = createOptimisticProperty(
+        1,
+        new Promise((resolve) => {
+          complete = resolve;
+        })
+      );
+
+      const result = property.setValue(2);
+      expect(property.getCachedValue()).toBe(2);
+      expect(notified).toEqual([2]);
+
+      complete!();
+      return expect(result)
+        .resolves.toBe(2)
+        .then(() => expect(notified).toEqual([2]));
+    });
+
+    it('rolls back if the write fails', () => {
+      const property = createOptimisticProperty(1, Promise.reject(new Error('Offline')));
+
+      return expect(property.setValue(2))
+        .rejects.toThrow('Offline')
+        .then(() => {
+          expect(property.getCachedValue()).toBe(1);
+          expect(notified).toEqual([2, 1]);
+        });
+    });
+
+    it('rolls back if the write times out', () => {
+      const property = createOptimisticProperty(
+        1,
+        new Promise(() => {
+          // Never completes.
+        })
+      );
+
+      return expect(property.setValue(2))
+        .rejects.toThrow('Timed out')
+        .then(() => {
+          expect(property.getCachedValue()).toBe(1);
+          expect(notified).toEqual([2, 1]);
+        });
+    });
+
+    it('keeps values reported while the write was in flight', () => {
+      let fail: (err: Error) => void;
+      const property = createOptimisticProperty(
+        1,
+        new Promise((_resolve, reject) => {
+          fail = reject;
+        })
+      );
+
+      const result = property.setValue(2);
+      property.setCachedValueAndNotify(3);
+      fail!(new Error('Offline'));
+
+      return expect(result)
+        .rejects.toThrow('Offline')
+        .then(() => {
+          expect(property.getCachedValue()).toBe(3);
+          expect(notified).toEqual([2, 3]);
+        });
+    });
+
+    it('does not roll back to a value which was never set', () => {
+      const property = new Property<Any>(device, 'test', { type: 'integer' });
+      device.addProperty(property);
+      property.setOptimisticWrites({ timeout: 50 });
+      jest.spyOn(property, 'writeToDevice').mockReturnValue(Promise.reject(new Error('Offline')));
+
+      return expect(property.setValue(2))
+        .rejects.toThrow('Offline')
+        .then(() => {
+          expect(notified).toEqual([2]);
+        });
+    });
+  });
+
+  describe('setComparator', () => {
+    let manager: StubManager;
+
+    beforeEach(() => {
+      manager = <StubManager>device.getAdapter().getManager();
+    });
+
+    it('compares object and array values structurally', () => {
+      const property = createProperty({ type: 'object' }, { hue: 10, levels: [1, 2] });
+
+      expect(property.setCachedValueAndNotify({ levels: [1, 2], hue: 10 })).toBe(false);
+      expect(manager.sendPropertyChangedNotification).not.toHaveBeenCalled();
+
+      expect(property.setCachedValueAndNotify({ hue: 10, levels: [2, 1] })).toBe(true);
+      expect(manager.sendPropertyChangedNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses a custom comparator instead', () => {
+      const property = createProperty({ type: 'string' }, 'on');
+      property.setComparator((a, b) => `${a}`.toLowerCase() === `${b}`.toLowerCase());
+
+      expect(property.setCachedValueAndNotify('ON')).toBe(false);
+      expect(property.setCachedValueAndNotify('off')).toBe(true);
+      expect(manager.sendPropertyChangedNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('goes back to the structural comparison when reset', () => {
+      const property = createProperty({ type: 'array' }, [1]);
+      property.setComparator(() => true);
+      expect(property.isEqual([1], [2])).toBe(true);
+
+      property.setComparator(null);
+      expect(property.isEqual([1], [2])).toBe(false);
+      expect(property.isEqual([1], [1])).toBe(true);
+    });
+  });
+
+  describe('convertUnit', () => {
+    it('drops multipleOf if converted values are off its grid', () => {
+      const property = createProperty(
+        { type: 'number', unit: 'degree celsius', minimum: 10, maximum: 32, multipleOf: 0.5 },
+        20
+      );
+      property.convertUnit('degree fahrenheit');
+
+      expect(property.getMaximum()).toBeCloseTo(89.6);
+      expect(property.getMultipleOf()).toBeUndefined();
+      return expect(property.setValue(property.getMaximum()!)).resolves.toBeCloseTo(89.6);
+    });
+  });
+
+  describe('usePreferredUnits', () => {
+    it('converts temperatures', () => {
+      const property = createProperty(
+        { '@type': 'TemperatureProperty', type: 'number', unit: 'degree fahrenheit' },
+        212
+      );
+      property.usePreferredUnits();
+
+      expect(property.getUnit()).toBe('degree celsius');
+      expect(property.getCachedValue()).toBeCloseTo(100);
+    });
+
+    it('converts temperatures in kelvin', () => {
+      const property = createProperty(
+        { '@type': 'TemperatureProperty', type: 'number', unit: 'kelvin' },
+        300
+      );
+      property.usePreferredUnits();
+
+      expect(property.getUnit()).toBe('degree celsius');
+    });
+
+    it('leaves color temperatures alone', () => {
+      const property = createProperty(
+        {
+          '@type': 'ColorTemperatureProperty',
+          type: 'integer',
+          unit: 'kelvin',
+          minimum: 2700,
+          maximum: 6500,
+        },
+        3000
+      );
+      property.usePreferredUnits();
+
+      expect(property.getUnit()).toBe('kelvin');
+      expect(property.getMinimum()).toBe(2700);
+      expect(property.getCachedValue()).toBe(3000);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { MessageType } from '../src/message-type';
+import { deepEqual, redactMessage } from '../src/utils';
+
+describe('utils', () => {
+  describe('deepEqual', () => {
+    it('compares primitives by value', () => {
+      expect(deepEqual(1, 1)).toBe(true);
+      expect(deepEqual('a', 'a')).toBe(true);
+      expect(deepEqual(null, null)).toBe(true);
+      expect(deepEqual(NaN, NaN)).toBe(true);
+      expect(deepEqual(1, '1')).toBe(false);
+      expect(deepEqual(0, null)).toBe(false);
+      expect(deepEqual(null, {})).toBe(false);
+    });
+
+    it('compares arrays element by element', () => {
+      expect(deepEqual([1, [2, 3]], [1, [2, 3]])).toBe(true);
+      expect(deepEqual([1, 2], [2, 1])).toBe(false);
+      expect(deepEqual([1], [1, 1])).toBe(false);
+    });
+
+    it('compares objects key by key, in any order', () => {
+      expect(deepEqual({ a: 1, b: { c: [1] } }, { b: { c: [1] }, a: 1 })).toBe(true);
+      expect(deepEqual({ a: 1 }, { a: 2 })).toBe(false);
+      expect(deepEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+      expect(deepEqual({ a: 1, b: 2 }, { a: 1, c: 2 })).toBe(false);
+    });
+
+    it('does not treat arrays as objects', () => {
+      expect(deepEqual([1, 2], { 0: 1, 1: 2 })).toBe(false);
+      expect(deepEqual([], {})).toBe(false);
+    });
+  });
+
+  describe('redactMessage', () => {
+    it('masks passwords and PINs', () => {
+      const msg = {
+        messageType: MessageType.DEVICE_SET_CREDENTIALS_REQUEST,
+        data: { deviceId: 'device-1', username: 'admin', password: 'secret' },
+      };
+
+      expect(redactMessage(msg)).toEqual({
+        messageType: MessageType.DEVICE_SET_CREDENTIALS_REQUEST,
+        data: { deviceId: 'device-1', username: 'admin', password: '********' },
+      });
+      expect(msg.data.password).toBe('secret');
+
+      expect(redactMessage({ data: { pin: '1234' } })).toEqual({ data: { pin: '********' } });
+    });
+
+    it('returns messages without secrets as they are', () => {
+      const msg = { messageType: MessageType.DEVICE_SET_PROPERTY_COMMAND, data: { deviceId: 'x' } };
+      expect(redactMessage(msg)).toBe(msg);
+      expect(redactMessage(null)).toBeNull();
+    });
+  });
+});